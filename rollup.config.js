@@ -5,6 +5,7 @@ import svelte from "rollup-plugin-svelte";
 
 export default {
   input: "src/index.ts",
+  external: ["svelte", /^svelte\//],
   output: [
     { file: "./dist/index.mjs", format: "es", sourcemap: true },
     {
@@ -12,6 +13,7 @@ export default {
       format: "umd",
       name: "@whizzes/svelte-forms",
       sourcemap: true,
+      globals: { svelte: "svelte", "svelte/store": "svelteStore" },
     },
   ],
   plugins: [
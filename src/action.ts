@@ -1,23 +1,286 @@
-import { FormInstance } from '.';
+import { get } from 'svelte/store';
 
+import { flatten, getIn, isEqual } from './utils';
+
+import type { ActionReturn } from 'svelte/action';
+import type { Unsubscriber } from 'svelte/store';
+import type { FieldElement, FieldOptions, FormInstance } from '.';
+import type { FieldError } from './validators';
+
+/**
+ * Parameters for the `field` action, either a `FormInstance` or an object
+ * with the `FormInstance` along with per-field options.
+ */
+export type FieldActionParams<T extends object> =
+  | FormInstance<T, T, FieldError>
+  | ({ form: FormInstance<T, T, FieldError> } & FieldOptions);
+
+const FIELD_TAG_NAMES = ['INPUT', 'SELECT', 'TEXTAREA'];
+
+const MILLISECONDS_PER_DAY = 86_400_000;
+
+/**
+ * Writes a form value into the DOM property that represents it for the
+ * provided element.
+ *
+ * - `checkbox`: Sets `checked` based on the value, or based on the value
+ * including the checkbox's value if it is an array (e.g. a checkbox group).
+ * - `radio`: Sets `checked` if the value matches the radio's value.
+ * - `file`: Sets `files` if the value is a `FileList`, the selection is
+ * cleared if the value is empty.
+ * - `date`, `datetime-local` or `time`: Sets `valueAsNumber` if the value is
+ * a `Date` instance.
+ * - `select-multiple`: Selects the options whose values are included in the
+ * value.
+ * - As fallback sets `value`.
+ */
+const setElementValue = (element: FieldElement, value: unknown): void => {
+  switch (element.type) {
+    case 'checkbox': {
+      const input = element as HTMLInputElement;
+
+      input.checked = Array.isArray(value)
+        ? value.includes(input.value)
+        : Boolean(value);
+      return;
+    }
+    case 'radio': {
+      const input = element as HTMLInputElement;
+
+      input.checked = value !== null && String(value) === input.value;
+      return;
+    }
+    case 'file': {
+      const input = element as HTMLInputElement;
+
+      if (typeof FileList !== 'undefined' && value instanceof FileList) {
+        input.files = value;
+        return;
+      }
+
+      if (value === null || typeof value === 'undefined') {
+        input.value = '';
+      }
+
+      return;
+    }
+    case 'date':
+    case 'datetime-local':
+    case 'time': {
+      if (value instanceof Date) {
+        const time = value.getTime();
+
+        (element as HTMLInputElement).valueAsNumber =
+          element.type === 'time' ? time % MILLISECONDS_PER_DAY : time;
+        return;
+      }
+
+      element.value = typeof value === 'string' ? value : '';
+      return;
+    }
+    case 'select-multiple': {
+      const selectedValues = Array.isArray(value) ? value.map(String) : [];
+
+      for (const option of Array.from((element as HTMLSelectElement).options)) {
+        option.selected = selectedValues.includes(option.value);
+      }
+
+      return;
+    }
+    default: {
+      const nextValue =
+        value === null || typeof value === 'undefined' ? '' : String(value);
+
+      // Avoid overwriting partial numeric input such as `1.` with `1`
+      if (
+        /^(number|range)$/.test(element.type) &&
+        element.value !== '' &&
+        +element.value === value
+      ) {
+        return;
+      }
+
+      if (element.value !== nextValue) {
+        element.value = nextValue;
+      }
+    }
+  }
+};
+
+/**
+ * Adds or removes `id` from the ids referenced by the element's
+ * `aria-describedby`, keeping any other id in place.
+ */
+const toggleDescribedBy = (
+  element: FieldElement,
+  id: string,
+  force: boolean,
+): void => {
+  const ids = (element.getAttribute('aria-describedby') ?? '')
+    .split(/\s+/)
+    .filter((describedBy) => describedBy && describedBy !== id);
+
+  if (force) {
+    ids.push(id);
+  }
+
+  if (ids.length > 0) {
+    element.setAttribute('aria-describedby', ids.join(' '));
+  } else {
+    element.removeAttribute('aria-describedby');
+  }
+};
+
+/**
+ * Binds a form field element to a `FormInstance`.
+ *
+ * Event listeners are attached to the element to update the form state and
+ * the element is kept in sync with the form values. Both are released when
+ * the element is destroyed.
+ *
+ * While the field's error is visible, according to the form's `errorDisplay`
+ * policy, the element is marked with `aria-invalid` and `aria-describedby`
+ * references the id from `getFieldErrorId`. The element is also registered
+ * to be focused when a submission fails.
+ *
+ * ```svelte
+ * <input name="name" use:field={form} />
+ * <input name="email" use:field={{ form, validateOnInput: true }} />
+ * ```
+ */
 export function field<T extends object>(
   node: Node,
-  form: FormInstance<T>,
-): void {
-  if (!form) {
-    throw new Error('Missing "FormInstance".');
-  }
+  params: FieldActionParams<T>,
+): ActionReturn<FieldActionParams<T>> {
+  const element = node as FieldElement;
+  let form: FormInstance<T, T, FieldError>;
+  let options: FieldOptions;
+  let unsubscribe: Unsubscriber;
+  let unsubscribeErrors: Unsubscriber;
+  let unregister: () => void;
+  let errorId: string | undefined;
+
+  const configure = (nextParams: FieldActionParams<T>): void => {
+    if (!nextParams) {
+      throw new Error('Missing "FormInstance".');
+    }
+
+    if ('form' in nextParams) {
+      const { form: nextForm, ...nextOptions } = nextParams;
+
+      if (!nextForm) {
+        throw new Error('Missing "FormInstance".');
+      }
+
+      form = nextForm;
+      options = nextOptions;
+      return;
+    }
+
+    form = nextParams;
+    options = {};
+  };
+
+  /**
+   * Writes the field's value into the element, formatted if `format` is
+   * configured. Formatting is deferred while the element is focused and its
+   * contents already represent the value, so typing is not interrupted.
+   */
+  const syncElement = (values: T): void => {
+    const name = options.name ?? element.name;
+    const { format, parse } = form.getFieldConfig(name, options);
+    const value = getIn(values, name);
+
+    if (!format) {
+      setElementValue(element, value);
+      return;
+    }
+
+    if (
+      element.ownerDocument?.activeElement === element &&
+      isEqual(parse ? parse(element.value) : element.value, value)
+    ) {
+      return;
+    }
 
-  if ((node as HTMLInputElement).tagName !== 'INPUT') {
-    throw new Error('Expected an `<input />` element.');
+    setElementValue(element, format(value));
+  };
+
+  /**
+   * Reflects whether the field has an error in the element's aria
+   * attributes.
+   */
+  const syncErrors = (errors: unknown): void => {
+    const name = options.name ?? element.name;
+    const hasError = Object.values(
+      flatten({ error: getIn(errors, name) }),
+    ).some(Boolean);
+
+    if (errorId) {
+      toggleDescribedBy(element, errorId, false);
+    }
+
+    errorId = form.getFieldErrorId(name);
+    toggleDescribedBy(element, errorId, hasError);
+
+    if (hasError) {
+      element.setAttribute('aria-invalid', 'true');
+    } else {
+      element.removeAttribute('aria-invalid');
+    }
+  };
+
+  const subscribe = (): void => {
+    unsubscribe = form.values.subscribe(syncElement);
+    unsubscribeErrors = form.visibleErrors.subscribe(syncErrors);
+    unregister = form.registerField(
+      options.name ?? element.name,
+      element,
+      options,
+    );
+  };
+
+  const release = (): void => {
+    unsubscribe();
+    unsubscribeErrors();
+    unregister();
+  };
+
+  const handleBlur = (event: Event) => {
+    form.handleBlur(event, options);
+    syncElement(get(form.values));
+  };
+  const handleChange = (event: Event) => form.handleChange(event, options);
+  const handleFocus = (event: Event) => form.handleFocus(event, options);
+  const handleInput = (event: Event) => form.handleInput(event, options);
+
+  configure(params);
+
+  if (!FIELD_TAG_NAMES.includes(element.tagName)) {
+    throw new Error(
+      'Expected an `<input />`, `<select />` or `<textarea />` element.',
+    );
   }
 
-  node.addEventListener('blur', form.handleBlur);
-  node.addEventListener('change', form.handleChange);
-  node.addEventListener('focus', form.handleFocus);
-  node.addEventListener('input', form.handleInput);
+  node.addEventListener('blur', handleBlur);
+  node.addEventListener('change', handleChange);
+  node.addEventListener('focus', handleFocus);
+  node.addEventListener('input', handleInput);
+
+  subscribe();
 
-  form.values.subscribe((values) => {
-    (node as HTMLInputElement).value = values[(node as HTMLInputElement).name];
-  });
+  return {
+    update(nextParams: FieldActionParams<T>): void {
+      configure(nextParams);
+      release();
+      subscribe();
+    },
+    destroy(): void {
+      node.removeEventListener('blur', handleBlur);
+      node.removeEventListener('change', handleChange);
+      node.removeEventListener('focus', handleFocus);
+      node.removeEventListener('input', handleInput);
+      release();
+    },
+  };
 }
@@ -0,0 +1,198 @@
+import { getContext, hasContext, setContext } from 'svelte';
+import { derived, get, readable } from 'svelte/store';
+
+import { getIn, isEqual } from './utils';
+
+import type { Readable, Writable } from 'svelte/store';
+import type { FieldPath, FormInstance } from '.';
+import type { FieldError } from './validators';
+
+const FORM_CONTEXT_KEY = Symbol('svelte-forms');
+
+/**
+ * Stores and handlers scoped to a single form field, `E` is the type of the
+ * field's error.
+ */
+export type FieldController<V, E extends FieldError = string> = {
+  /**
+   * Field's path.
+   */
+  name: string;
+
+  /**
+   * A writable store which holds the field's value, setting it updates the
+   * form values through `setFieldValue`.
+   */
+  value: Writable<V>;
+
+  /**
+   * A readable store which holds the field's error, `undefined` if the field
+   * has no error.
+   */
+  error: Readable<E | undefined>;
+
+  /**
+   * Id to use for the element displaying the field's error, referenced by
+   * the `field` action through `aria-describedby`.
+   */
+  errorId: string;
+
+  /**
+   * A readable store which holds the field's error if visible according to
+   * the form's `errorDisplay` policy, `undefined` otherwise.
+   */
+  visibleError: Readable<E | undefined>;
+
+  /**
+   * A readable store which holds a boolean `true` if the field has been
+   * touched.
+   */
+  touched: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` if the field has been
+   * focused.
+   */
+  visited: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` if the field's value is
+   * different from its initial value.
+   */
+  dirty: Readable<boolean>;
+
+  /**
+   * Event handlers bound to the field, can be used regardless of the
+   * element's `name`.
+   */
+  handleBlur(event: Event): void;
+  handleChange(event: Event): void;
+  handleFocus(event: Event): void;
+  handleInput(event: Event): void;
+
+  setError(message?: FieldError): void;
+  setTouched(value?: boolean): void;
+  setValue(value: V): void;
+
+  /**
+   * Validates the field asynchronously.
+   */
+  validate(): Promise<void>;
+};
+
+/**
+ * Creates a readable store which holds the result of `selector` and only
+ * notifies subscribers when such result changes, instead of every time
+ * `store` changes.
+ */
+const select = <S, V>(
+  store: Readable<S>,
+  selector: (value: S) => V,
+): Readable<V> =>
+  readable<V>(undefined, (set) => {
+    let isInitialized = false;
+    let current: V;
+
+    return store.subscribe((value) => {
+      const next = selector(value);
+
+      if (!isInitialized || !isEqual(current, next)) {
+        isInitialized = true;
+        current = next;
+        set(next);
+      }
+    });
+  });
+
+/**
+ * Makes `form` available to every child component through
+ * `getFormContext` and `useField`.
+ *
+ * Must be called during component initialization.
+ */
+export const setFormContext = <
+  T extends object,
+  O = T,
+  E extends FieldError = string,
+>(
+  form: FormInstance<T, O, E>,
+): FormInstance<T, O, E> => setContext(FORM_CONTEXT_KEY, form);
+
+/**
+ * Retrieves the form made available by a parent component through
+ * `setFormContext`.
+ *
+ * Must be called during component initialization.
+ */
+export const getFormContext = <
+  T extends object,
+  E extends FieldError = string,
+>(): FormInstance<T, T, E> => {
+  if (!hasContext(FORM_CONTEXT_KEY)) {
+    throw new Error(
+      'Missing "FormInstance" in context. Call "setFormContext" in a parent component.',
+    );
+  }
+
+  return getContext(FORM_CONTEXT_KEY);
+};
+
+/**
+ * Creates a `FieldController` for the field at `name`, the form is
+ * retrieved from context unless provided.
+ *
+ * Stores only notify subscribers when the field in question changes, so
+ * components re-render only when their own field changes.
+ *
+ * ```svelte
+ * <script lang="ts">
+ *   export let name: string;
+ *
+ *   const { value, visibleError, errorId, handleBlur } = useField<string>(name);
+ * </script>
+ *
+ * <input {name} bind:value={$value} on:blur={handleBlur} />
+ * {#if $visibleError}<span id={errorId}>{$visibleError}</span>{/if}
+ * ```
+ */
+export const useField = <
+  V = unknown,
+  T extends object = object,
+  E extends FieldError = string,
+>(
+  name: FieldPath<T>,
+  form: FormInstance<T, T, E> = getFormContext<T, E>(),
+): FieldController<V, E> => {
+  const value = select(form.values, (values) => getIn<V>(values, name));
+
+  return {
+    name,
+    value: {
+      subscribe: value.subscribe,
+      set: (nextValue) => form.setFieldValue(name, nextValue),
+      update: (updater) =>
+        form.setFieldValue(name, updater(getIn<V>(get(form.values), name))),
+    },
+    error: select(form.errors, (errors) => getIn<E>(errors, name) ?? undefined),
+    errorId: form.getFieldErrorId(name),
+    visibleError: select(
+      form.visibleErrors,
+      (errors) => getIn<E>(errors, name) ?? undefined,
+    ),
+    touched: select(form.touched, (touched) => Boolean(getIn(touched, name))),
+    visited: select(form.visited, (visited) => Boolean(getIn(visited, name))),
+    dirty: select(
+      derived([form.initialValues, form.values], (stores) => stores),
+      ([initialValues, values]) =>
+        !isEqual(getIn(initialValues, name), getIn(values, name)),
+    ),
+    handleBlur: (event) => form.handleBlur(event, { name }),
+    handleChange: (event) => form.handleChange(event, { name }),
+    handleFocus: (event) => form.handleFocus(event, { name }),
+    handleInput: (event) => form.handleInput(event, { name }),
+    setError: (message) => form.setFieldError(name, message),
+    setTouched: (touched = true) => form.setFieldTouched(name, touched),
+    setValue: (nextValue) => form.setFieldValue(name, nextValue),
+    validate: () => form.validateField(name),
+  };
+};
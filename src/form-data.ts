@@ -0,0 +1,357 @@
+import { isPlainObject, joinPath, setIn, toPath } from './utils';
+
+import type { OnSubmitHelpers } from '.';
+
+export type SerializeOptions = {
+  /**
+   * If `true`, items from arrays of primitive values are named with their
+   * index (`tags[0]`, `tags[1]`) instead of repeating the field name
+   * (`tags`, `tags`) as checkbox groups and multiple selects do.
+   */
+  indices?: boolean;
+};
+
+type Append = (name: string, value: string | Blob) => void;
+
+/**
+ * Path segments which could tamper with object prototypes.
+ */
+const UNSAFE_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Retrieves the value at `segments` from `shape`, array items missing from
+ * `shape` are described by its first item.
+ */
+const getShapeAt = (shape: unknown, segments: string[]): unknown =>
+  segments.reduce<unknown>((current, segment) => {
+    if (Array.isArray(current)) {
+      return current[segment] ?? current[0];
+    }
+
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+
+    return current[segment];
+  }, shape);
+
+/**
+ * Checks whether `segments` point to a field described by `shape`, array
+ * items missing from `shape` are described by its first item.
+ *
+ * Unsafe segments such as `__proto__` and array indexes from `maxIndex` on
+ * are never considered part of `shape`.
+ */
+const isShapePath = (
+  shape: unknown,
+  segments: string[],
+  maxIndex: number,
+): boolean => {
+  let current = shape;
+
+  for (const segment of segments) {
+    if (UNSAFE_SEGMENTS.includes(segment)) {
+      return false;
+    }
+
+    if (Array.isArray(current)) {
+      if (!/^\d+$/.test(segment) || Number(segment) >= maxIndex) {
+        return false;
+      }
+
+      current = current[segment] ?? current[0];
+      continue;
+    }
+
+    if (
+      !isPlainObject(current) ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return false;
+    }
+
+    current = current[segment];
+  }
+
+  return segments.length > 0;
+};
+
+/**
+ * Builds the values used as base when reading `FormData`.
+ *
+ * Arrays are emptied and booleans are set to `false` given that neither
+ * unchecked checkboxes nor empty multiple selections are submitted.
+ */
+const toBaseValues = (shape: unknown): unknown => {
+  if (Array.isArray(shape)) {
+    return [];
+  }
+
+  if (isPlainObject(shape)) {
+    return Object.fromEntries(
+      Object.keys(shape).map((key) => [key, toBaseValues(shape[key])]),
+    );
+  }
+
+  if (typeof shape === 'boolean') {
+    return false;
+  }
+
+  return shape;
+};
+
+/**
+ * Removes the rows missing from arrays, e.g. when the entries for `items[0]`
+ * and `items[2]` were submitted but not the ones for `items[1]`.
+ */
+const compactRows = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.filter((item) => typeof item !== 'undefined').map(compactRows);
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.keys(value).map((key) => [key, compactRows(value[key])]),
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Coerces a `FormData` entry into the type of the value from `shape`.
+ *
+ * - `number`: Parsed as number, empty entries become `null`.
+ * - `boolean`: `true` unless the entry is empty or `"false"`.
+ * - `Date`: Parsed as date, empty entries become `null`.
+ * - Files without name nor contents (an empty file input) become `null`.
+ * - Any other entry is kept as is.
+ */
+const coerceEntry = (entry: FormDataEntryValue, shape: unknown): unknown => {
+  if (typeof entry !== 'string') {
+    return entry.name === '' && entry.size === 0 ? null : entry;
+  }
+
+  if (typeof shape === 'number') {
+    return entry === '' ? null : Number(entry);
+  }
+
+  if (typeof shape === 'boolean') {
+    return entry !== '' && entry !== 'false';
+  }
+
+  if (shape instanceof Date) {
+    return entry === '' ? null : new Date(entry);
+  }
+
+  return entry;
+};
+
+/**
+ * Appends `value` to the serialized body under the name built from
+ * `segments`.
+ *
+ * - `null` and `undefined` values are omitted.
+ * - `File` and `Blob` values are appended as is, `FileList` values are
+ * appended file by file.
+ * - `Date` values are appended as ISO strings.
+ * - Plain objects and arrays are walked recursively.
+ * - Any other value is turned into a string.
+ */
+const appendValue = (
+  append: Append,
+  segments: Array<string | number>,
+  value: unknown,
+  options: SerializeOptions,
+): void => {
+  const name = joinPath(segments);
+
+  if (value === null || typeof value === 'undefined') {
+    return;
+  }
+
+  if (typeof FileList !== 'undefined' && value instanceof FileList) {
+    Array.from(value).forEach((file) => append(name, file));
+    return;
+  }
+
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    append(name, value);
+    return;
+  }
+
+  if (value instanceof Date) {
+    append(name, Number.isNaN(value.getTime()) ? '' : value.toISOString());
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const isNested = isPlainObject(item) || Array.isArray(item);
+
+      appendValue(
+        append,
+        isNested || options.indices ? [...segments, index] : segments,
+        item,
+        options,
+      );
+    });
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    Object.keys(value).forEach((key) =>
+      appendValue(append, [...segments, key], value[key], options),
+    );
+    return;
+  }
+
+  append(name, String(value));
+};
+
+/**
+ * Serializes form values into `FormData`, e.g. for multipart uploads.
+ *
+ * Nested fields are named by their path (`address.city`, `items[0].qty`),
+ * so the result can be read back with `fromFormData`.
+ *
+ * ```ts
+ * await fetch('/profile', { method: 'POST', body: toFormData(values) });
+ * ```
+ */
+export const toFormData = <T extends object>(
+  values: T,
+  options: SerializeOptions = {},
+): FormData => {
+  const formData = new FormData();
+
+  appendValue(
+    (name, value) => formData.append(name, value),
+    [],
+    values,
+    options,
+  );
+
+  return formData;
+};
+
+/**
+ * Serializes form values into `URLSearchParams` for URL-encoded bodies,
+ * following the same rules as `toFormData`.
+ *
+ * `File` and `Blob` values can't be URL-encoded and are omitted.
+ */
+export const toURLSearchParams = <T extends object>(
+  values: T,
+  options: SerializeOptions = {},
+): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  appendValue(
+    (name, value) => {
+      if (typeof value === 'string') {
+        params.append(name, value);
+      }
+    },
+    [],
+    values,
+    options,
+  );
+
+  return params;
+};
+
+/**
+ * Wraps an `onSubmit` callback which receives the form values serialized as
+ * `FormData` along with the plain values.
+ *
+ * ```ts
+ * newForm({
+ *   initialValues,
+ *   onSubmit: withFormData((body) => fetch('/profile', { method: 'POST', body })),
+ * });
+ * ```
+ */
+export const withFormData =
+  <T extends object>(
+    onSubmit: (
+      body: FormData,
+      values: T,
+      helpers: OnSubmitHelpers<T>,
+    ) => Promise<unknown> | unknown,
+    options?: SerializeOptions,
+  ) =>
+  async (values: T, helpers: OnSubmitHelpers<T>): Promise<void> => {
+    await onSubmit(toFormData(values, options), values, helpers);
+  };
+
+/**
+ * Wraps an `onSubmit` callback which receives the form values serialized as
+ * `URLSearchParams` along with the plain values.
+ */
+export const withURLSearchParams =
+  <T extends object>(
+    onSubmit: (
+      body: URLSearchParams,
+      values: T,
+      helpers: OnSubmitHelpers<T>,
+    ) => Promise<unknown> | unknown,
+    options?: SerializeOptions,
+  ) =>
+  async (values: T, helpers: OnSubmitHelpers<T>): Promise<void> => {
+    await onSubmit(toURLSearchParams(values, options), values, helpers);
+  };
+
+/**
+ * Reads form values from `FormData`, e.g. the one submitted by a native
+ * `<form>` element, or from URL-encoded `URLSearchParams`.
+ *
+ * Entry names are field paths (`address.city`, `items[0].qty`) and `shape`,
+ * usually the form's initial values, describes the type each entry is
+ * coerced into. Fields whose value in `shape` is an array collect every
+ * entry with the same name (e.g. a checkbox group).
+ *
+ * Entries for fields missing from `shape` are ignored, so untrusted
+ * submissions can't add unexpected fields to the values. Array indexes are
+ * bounded by the number of entries and missing rows are removed, so rows
+ * are always read into dense arrays.
+ *
+ * ```ts
+ * const values = fromFormData(await request.formData(), initialValues);
+ * ```
+ */
+export const fromFormData = <T extends object>(
+  formData: FormData | URLSearchParams,
+  shape: T,
+): T => {
+  const entries = new Map<string, FormDataEntryValue[]>();
+  let entriesCount = 0;
+  let values = toBaseValues(shape) as T;
+
+  (formData as FormData).forEach(() => {
+    entriesCount++;
+  });
+
+  (formData as FormData).forEach((entry, name) => {
+    const segments = toPath(name);
+    const path = joinPath(segments);
+
+    if (isShapePath(shape, segments, entriesCount)) {
+      entries.set(path, [...(entries.get(path) ?? []), entry]);
+    }
+  });
+
+  entries.forEach((fieldEntries, path) => {
+    const fieldShape = getShapeAt(shape, toPath(path));
+
+    values = setIn(
+      values,
+      path,
+      Array.isArray(fieldShape)
+        ? fieldEntries.map((entry) => coerceEntry(entry, fieldShape[0]))
+        : coerceEntry(fieldEntries[fieldEntries.length - 1], fieldShape),
+    );
+  });
+
+  return compactRows(values) as T;
+};
@@ -0,0 +1,126 @@
+import { derived, get, writable } from 'svelte/store';
+
+import type { Readable } from 'svelte/store';
+
+export type HistoryConfig = {
+  /**
+   * Maximum number of snapshots kept to undo changes. Defaults to `100`.
+   */
+  limit?: number;
+
+  /**
+   * Milliseconds in which consecutive changes to the same field are
+   * coalesced into a single snapshot (e.g. keystrokes). Defaults to `500`.
+   */
+  coalesce?: number;
+};
+
+export type History<T> = {
+  /**
+   * A readable store which holds a boolean `true` if there are changes to
+   * undo.
+   */
+  canUndo: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` if there are undone
+   * changes to redo.
+   */
+  canRedo: Readable<boolean>;
+
+  /**
+   * Records `snapshot` as the state previous to a change. Changes with the
+   * same `key` recorded in quick succession are coalesced.
+   */
+  record(snapshot: T, key?: string): void;
+
+  /**
+   * Retrieves the state previous to `current`, `current` is kept to be
+   * redone. Returns `undefined` if there's nothing to undo.
+   */
+  undo(current: T): T | undefined;
+
+  /**
+   * Retrieves the state undone last, `current` is kept to be undone again.
+   * Returns `undefined` if there's nothing to redo.
+   */
+  redo(current: T): T | undefined;
+
+  /**
+   * Removes every snapshot.
+   */
+  clear(): void;
+};
+
+/**
+ * Creates a history of snapshots to undo and redo changes.
+ */
+export const createHistory = <T>(config: HistoryConfig = {}): History<T> => {
+  const limit = config.limit ?? 100;
+  const coalesce = config.coalesce ?? 500;
+  const stacks = writable<{ past: T[]; future: T[] }>({ past: [], future: [] });
+  let lastKey: string | undefined;
+  let lastRecordedAt = 0;
+
+  const record = (snapshot: T, key?: string): void => {
+    const now = Date.now();
+    const isCoalesced =
+      typeof key !== 'undefined' &&
+      key === lastKey &&
+      now - lastRecordedAt < coalesce;
+
+    lastKey = key;
+    lastRecordedAt = now;
+
+    stacks.update(({ past }) => ({
+      past: isCoalesced ? past : [...past, snapshot].slice(-limit),
+      future: [],
+    }));
+  };
+
+  const undo = (current: T): T | undefined => {
+    const { past, future } = get(stacks);
+
+    if (past.length === 0) {
+      return undefined;
+    }
+
+    lastKey = undefined;
+    stacks.set({
+      past: past.slice(0, -1),
+      future: [...future, current],
+    });
+
+    return past[past.length - 1];
+  };
+
+  const redo = (current: T): T | undefined => {
+    const { past, future } = get(stacks);
+
+    if (future.length === 0) {
+      return undefined;
+    }
+
+    lastKey = undefined;
+    stacks.set({
+      past: [...past, current].slice(-limit),
+      future: future.slice(0, -1),
+    });
+
+    return future[future.length - 1];
+  };
+
+  const clear = (): void => {
+    lastKey = undefined;
+    stacks.set({ past: [], future: [] });
+  };
+
+  return {
+    canUndo: derived(stacks, ({ past }) => past.length > 0),
+    canRedo: derived(stacks, ({ future }) => future.length > 0),
+    record,
+    undo,
+    redo,
+    clear,
+  };
+};
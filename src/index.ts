@@ -1,48 +1,506 @@
-import { derived, get, writable } from 'svelte/store';
-import { isSchema, ValidationError } from 'yup';
-
-import { clone } from './utils';
+import { onDestroy, tick } from 'svelte';
+import { derived, get, readable, writable } from 'svelte/store';
+
+import {
+  clone,
+  flatten,
+  getChangedPaths,
+  getIn,
+  hasIn,
+  insertAt,
+  isEqual,
+  isPlainObject,
+  isWithinPaths,
+  joinPath,
+  moveItem,
+  removeAt,
+  setIn,
+  swapItems,
+  throttle,
+  toPath,
+  unsetIn,
+} from './utils';
+import { createHistory } from './history';
+import { clearDraft, loadDraft, mergeDraft, saveDraft } from './persist';
+import { SubmitFailure } from './server-errors';
+import { resolveValidator } from './validators';
+import { createWizard } from './wizard';
 
 import type { Readable, Unsubscriber, Writable } from 'svelte/store';
-import type { Schema, ValidateOptions } from 'yup';
+import type { HistoryConfig } from './history';
+import type { PersistConfig } from './persist';
+import type {
+  FieldError,
+  FormatError,
+  ValidationErrorsMap,
+  ValidationResult,
+  Validator,
+  YupSchema,
+  YupValidateOptions,
+} from './validators';
+import type { WizardStep, WizardStepConfig } from './wizard';
 
 export { field } from './action';
+export type { FieldActionParams } from './action';
+export { getFormContext, setFormContext, useField } from './context';
+export type { FieldController } from './context';
+export {
+  functionValidator,
+  yupValidator,
+  zodValidator,
+} from './validators';
+
+export {
+  fromFormData,
+  toFormData,
+  toURLSearchParams,
+  withFormData,
+  withURLSearchParams,
+} from './form-data';
+export {
+  actionFailure,
+  applyActionData,
+  enhanceForm,
+  validateFormData,
+} from './kit';
+export {
+  SubmitFailure,
+  fromFieldErrors,
+  fromGraphQLErrors,
+  fromProblemDetails,
+} from './server-errors';
+export type { SerializeOptions } from './form-data';
+export type { HistoryConfig } from './history';
+export type {
+  EnhanceActionResult,
+  EnhanceFormOptions,
+  EnhanceResultInput,
+  EnhanceSubmitFunction,
+  FormActionConfig,
+  FormActionFailure,
+  FormActionResult,
+} from './kit';
+export type { DraftStorage, PersistConfig } from './persist';
+export type { GraphQLError, ProblemDetails } from './server-errors';
+export type {
+  FieldError,
+  FormatError,
+  ValidationErrorsMap,
+  ValidationFn,
+  ValidationIssue,
+  ValidationResult,
+  Validator,
+  ValidatorConfig,
+  ValidatorOptions,
+  YupSchema,
+  YupValidateOptions,
+  ZodSchema,
+} from './validators';
+export type { WizardStep, WizardStepConfig } from './wizard';
+
+/**
+ * Path to a form field.
+ *
+ * Either a top-level key of the form values or a path to a nested field
+ * written in dot and/or bracket notation, e.g. `address.city` or
+ * `items[2].qty`.
+ */
+export type FieldPath<T> =
+  | Extract<keyof T, string>
+  | (string & Record<never, never>);
+
+/**
+ * Maps every leaf field of `T` to a value of type `V`, mirroring the nested
+ * shape of `T`.
+ *
+ * Values such as `Date`, `File` or `Blob` are treated as leaf fields.
+ */
+export type FieldsMap<T, V> = {
+  [K in keyof T]: T[K] extends Date | Blob | FileList
+    ? V
+    : T[K] extends ReadonlyArray<infer U>
+    ? U extends object
+      ? FieldsMap<U, V>[]
+      : V[]
+    : T[K] extends object
+    ? FieldsMap<T[K], V>
+    : V;
+};
+
+/**
+ * Errors mirroring the nested shape of `T`, `E` is `string[]` if the form
+ * collects `multipleErrors`.
+ */
+export type FormErrors<T, E extends FieldError = string> = FieldsMap<
+  T,
+  E | undefined
+>;
 
-export type FormErrors<T> = Record<keyof T, string | undefined>;
+export type FormTouched<T> = FieldsMap<T, boolean>;
 
-export type SetFieldError<T> = (field: keyof T, message?: string) => void;
+export type SetFieldError<T> = (
+  field: FieldPath<T>,
+  message?: FieldError,
+) => void;
 
-export type SetFieldTouched<T> = (field: keyof T, value: boolean) => void;
+export type SetFieldTouched<T> = (field: FieldPath<T>, value: boolean) => void;
 
-export type SetFieldValue<T> = (field: keyof T, value: unknown) => void;
+export type SetFieldValue<T> = (
+  field: FieldPath<T>,
+  value: unknown,
+  shouldValidateField?: boolean,
+) => void;
 
 export type SetInitialValues<T> = (initialValues: T) => void;
 
+/**
+ * Stage of the form submission.
+ *
+ * - `idle`: The form has not been submitted yet.
+ * - `validating`: The form values are being validated.
+ * - `submitting`: The `onSubmit` callback is being executed.
+ * - `succeeded`: The last submission completed successfully.
+ * - `failed`: The last submission failed either on validation or because
+ * `onSubmit` threw an error.
+ */
+export type SubmitState =
+  | 'idle'
+  | 'validating'
+  | 'submitting'
+  | 'succeeded'
+  | 'failed';
+
+/**
+ * Events which trigger the validation of a field.
+ *
+ * - `onSubmit`: Only when the form is submitted.
+ * - `onBlur`: When the field is blurred.
+ * - `onChange`: Whenever the field's value changes.
+ * - `onTouched`: When the field is blurred and, once touched, whenever its
+ * value changes.
+ * - `all`: When the field is blurred and whenever its value changes.
+ */
+export type ValidationMode =
+  | 'onSubmit'
+  | 'onBlur'
+  | 'onChange'
+  | 'onTouched'
+  | 'all';
+
+/**
+ * Events which trigger the validation of a field after the first submission
+ * attempt.
+ */
+export type ReValidateMode = 'onSubmit' | 'onBlur' | 'onChange';
+
+/**
+ * Policy to decide when the error of a field is included in the
+ * `visibleErrors` store.
+ *
+ * - `onTouched`: Once the field has been blurred.
+ * - `onBlurAfterEdit`: Once the field has been blurred after its value
+ * changed.
+ * - `afterFirstSubmit`: Once the form has been submitted.
+ * - `always`: As soon as the field has an error.
+ *
+ * Every error is visible once the form has been submitted, errors of a
+ * wizard step are visible once moving past such step is attempted.
+ */
+export type ErrorDisplayPolicy =
+  | 'onTouched'
+  | 'onBlurAfterEdit'
+  | 'afterFirstSubmit'
+  | 'always';
+
+/**
+ * A row from a field array.
+ */
+export type FieldArrayItem<V> = {
+  /**
+   * Stable key for the row, which is kept as rows are shifted around. Meant
+   * to be used as the key of Svelte's keyed `{#each}` blocks.
+   */
+  key: string;
+
+  /**
+   * Current index of the row in the field array.
+   */
+  index: number;
+
+  /**
+   * Current value of the row.
+   */
+  value: V;
+};
+
+/**
+ * Helpers to manage a field holding an array of values (e.g. repeatable
+ * rows).
+ *
+ * Every helper keeps `errors` and `touched` aligned with the rows, so the
+ * error for a row follows the row when it is shifted.
+ */
+export type FieldArray<V> = {
+  /**
+   * A readable store which holds the rows of the field array along with a
+   * stable key for each row.
+   *
+   * ```svelte
+   * {#each $items as item (item.key)}
+   *   <input name="items[{item.index}].qty" bind:value={$values.items[item.index].qty} />
+   * {/each}
+   * ```
+   */
+  items: Readable<FieldArrayItem<V>[]>;
+
+  /**
+   * Appends a row to the end of the field array.
+   */
+  push(value: V): void;
+
+  /**
+   * Inserts a row at the provided index.
+   */
+  insert(index: number, value: V): void;
+
+  /**
+   * Removes the row at the provided index.
+   */
+  remove(index: number): void;
+
+  /**
+   * Moves the row at index `from` to index `to`, shifting the rows in
+   * between.
+   */
+  move(from: number, to: number): void;
+
+  /**
+   * Swaps the rows at the provided indexes.
+   */
+  swap(indexA: number, indexB: number): void;
+
+  /**
+   * Replaces the row at the provided index, clearing its errors and touched
+   * state.
+   */
+  replace(index: number, value: V): void;
+};
+
+/**
+ * Retrieves the value for a field from its element, used to override
+ * `getInputValue` for a single field.
+ *
+ * The `currentValue` of the field is provided as second argument.
+ */
+export type InputParser = (
+  element: FieldElement,
+  currentValue: unknown,
+) => unknown;
+
+/**
+ * Options used by `getInputValue` to retrieve the value of a field element.
+ */
+export type InputValueOptions = {
+  /**
+   * Wether to retrieve the value of `date`, `datetime-local` and `time`
+   * inputs as a `Date` instance instead of the ISO 8601 string held by the
+   * input.
+   *
+   * Dates are created from the input's value as UTC, same as the input's
+   * `valueAsDate` property.
+   */
+  valueAsDate?: boolean;
+};
+
+/**
+ * Per-field configuration, used to override the form's configuration for a
+ * single field.
+ */
+export type FieldConfig<T = unknown> = InputValueOptions & {
+  /**
+   * Retrieves the value for the field from its element instead of using
+   * `getInputValue`.
+   */
+  parser?: InputParser;
+
+  /**
+   * Transforms the value read from the element before it is stored in the
+   * form values, e.g. to trim text or to parse a currency amount.
+   */
+  parse?(value: unknown): unknown;
+
+  /**
+   * Transforms the field's value before it is written to the element by the
+   * `field` action, e.g. to format a currency amount.
+   */
+  format?(value: unknown): unknown;
+
+  /**
+   * Condition for the field to be active, e.g. a "company name" field which
+   * only applies to businesses.
+   *
+   * Inactive fields are skipped by validation, their errors are cleared and
+   * they are not provided to `onSubmit`.
+   */
+  when?(values: T): boolean;
+
+  /**
+   * If `true`, the field's value is kept while the field is inactive instead
+   * of being reset to its initial value, so it is restored once the field is
+   * active again. Inactive fields are not submitted either way.
+   */
+  keepValue?: boolean;
+
+  /**
+   * Events which trigger the validation of the field before the first
+   * submission attempt, overrides the form's `mode`.
+   */
+  mode?: ValidationMode;
+
+  /**
+   * Events which trigger the validation of the field after the first
+   * submission attempt, overrides the form's `reValidateMode`.
+   */
+  reValidateMode?: ReValidateMode;
+
+  /**
+   * Wether to validate the field whenever `handleBlur` is executed.
+   */
+  validateOnBlur?: boolean;
+
+  /**
+   * Wether to validate the field whenever `handleChange` is executed or its
+   * value changes through the `values` store.
+   */
+  validateOnChange?: boolean;
+
+  /**
+   * Wether to validate the field whenever `handleFocus` is executed.
+   */
+  validateOnFocus?: boolean;
+
+  /**
+   * Wether to validate the field whenever `handleInput` is executed or its
+   * value changes through the `values` store.
+   */
+  validateOnInput?: boolean;
+
+  /**
+   * Milliseconds to wait after the last `input` event before validating the
+   * field when `validateOnInput` is enabled.
+   */
+  validationDebounce?: number;
+};
+
+/**
+ * Per-field options provided to event handlers and the `field` action.
+ */
+export type FieldOptions = FieldConfig & {
+  /**
+   * Path to the field, defaults to the element's `name` attribute.
+   */
+  name?: string;
+};
+
 /**
  * Internal Subscriptions
  */
 export type Subscriptions = {
   values: Unsubscriber;
+  touched?: Unsubscriber;
 };
 
+export type SetErrors = (errors: ValidationErrorsMap) => void;
+
 export type OnSubmitHelpers<T> = {
+  setErrors: SetErrors;
   setFieldError: SetFieldError<T>;
   setFieldValue: SetFieldValue<T>;
 };
 
-export type FormInstance<T extends object> = {
+/**
+ * Form instance, `O` is the type of the values provided to `onSubmit` which
+ * differs from `T` if a `validationSchema` transforms the values and `E` is
+ * the type of each field's error.
+ */
+export type FormInstance<
+  T extends object,
+  O = T,
+  E extends FieldError = string,
+> = {
   /**
    * Form errors.
    *
-   * A readable store that holds form validation errors.
+   * A readable store that holds form validation errors. Mirrors the nested
+   * shape of the form values, e.g. the error for the `address.city` field is
+   * available at `$errors.address.city`.
+   */
+  errors: Readable<FormErrors<T, E>>;
+
+  /**
+   * Form errors to display.
+   *
+   * A readable store that holds the errors from `errors` which are visible
+   * according to the `errorDisplay` policy, hidden errors are `null`.
+   *
+   * ```svelte
+   * {#if $visibleErrors.email}<p>{$visibleErrors.email}</p>{/if}
+   * ```
+   */
+  visibleErrors: Readable<FormErrors<T, E>>;
+
+  /**
+   * Form-level error.
+   *
+   * A readable store that holds an error which doesn't belong to any field,
+   * such as errors reported by `setErrors` for unknown fields.
    */
-  errors: Readable<FormErrors<T>>;
+  formError: Readable<string | undefined>;
 
   /**
    * Clear all errors.
    */
   clearErrors(): void;
 
+  /**
+   * Imperatively replaces the form errors with the provided error messages
+   * keyed by field path.
+   *
+   * Messages for paths which don't exist in the form values are used as the
+   * `formError` instead. Built-in mappers are available to turn common
+   * server error payloads into error messages keyed by field path:
+   * `fromProblemDetails`, `fromGraphQLErrors` and `fromFieldErrors`.
+   *
+   * ```ts
+   * onSubmit: async (values, { setErrors }) => {
+   *   const response = await fetch('/api/agents', { method: 'POST' });
+   *
+   *   if (response.status === 422) {
+   *     setErrors(fromFieldErrors(await response.json()));
+   *   }
+   * }
+   * ```
+   */
+  setErrors: SetErrors;
+
+  /**
+   * Removes the draft persisted for the form, if `persist` is configured.
+   */
+  clearDraft(): void;
+
+  /**
+   * Retrieves helpers to manage the array of values held by the field at
+   * `path`.
+   *
+   * ```ts
+   * const { items, push, remove } = form.fieldArray<{ qty: number }>('items');
+   *
+   * push({ qty: 1 });
+   * remove(0);
+   * ```
+   */
+  fieldArray<V = unknown>(path: FieldPath<T>): FieldArray<V>;
+
   /**
    * Form's fields initial values.
    *
@@ -57,30 +515,136 @@ export type FormInstance<T extends object> = {
    */
   isSubmitting: Readable<boolean>;
 
+  /**
+   * A readable store which holds the error thrown by the `onSubmit` callback
+   * on the last submission, or `null` if it didn't throw.
+   */
+  lastSubmitError: Readable<unknown>;
+
+  /**
+   * A readable store which holds the number of times `handleSubmit` has been
+   * executed, including submissions which failed validation.
+   */
+  submitCount: Readable<number>;
+
+  /**
+   * A readable store which holds the current stage of the form submission.
+   */
+  submitState: Readable<SubmitState>;
+
   /**
    * A readable store which holds a boolean `true` if the form submition is
    * under validation stage.
    */
   isValidating: Readable<boolean>;
 
+  /**
+   * A readable store which holds a boolean `true` if the form has no
+   * validation errors.
+   *
+   * By default it reflects the `errors` store, enable `liveValidation` in
+   * the `FormConfig` to keep it up to date as values change.
+   */
+  isValid: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` for the fields being
+   * validated by `validateField`. Mirrors the nested shape of the form
+   * values.
+   *
+   * Useful to display a loading UI for fields with asynchronous validations
+   * (e.g. checking if a username is taken).
+   */
+  validatingFields: Readable<FieldsMap<T, boolean>>;
+
   /**
    * A readable store which holds a boolean `true` if the initial values of the form have been changed.
+   *
+   * Derived from `dirtyFields`, so values are compared deeply.
    */
   isDirty: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` for the fields whose value
+   * differs from its initial value. Mirrors the nested shape of the form
+   * values.
+   *
+   * Values are compared deeply, so an array or object field is not dirty if
+   * its contents are equal to the initial ones. Rows added to or removed
+   * from an array field are dirty.
+   */
+  dirtyFields: Readable<FieldsMap<T, boolean>>;
+
+  /**
+   * Checks whether the value of the field at `field` differs from its
+   * initial value.
+   */
+  isFieldDirty(field: FieldPath<T>): boolean;
+
+  /**
+   * Resolves the configuration for the field at `field`, the provided
+   * `options` take precedence over the form's `fields` configuration.
+   */
+  getFieldConfig(field: FieldPath<T>, options?: FieldOptions): FieldConfig<T>;
+
+  /**
+   * Checks whether the field at `field` is active, that is every `when`
+   * condition configured for the field or its parents is met.
+   */
+  isFieldActive(field: FieldPath<T>): boolean;
+
+  /**
+   * Retrieves the `id` to use for the element displaying the error of the
+   * field at `field`, the `field` action references it through
+   * `aria-describedby` when the field has an error.
+   *
+   * ```svelte
+   * <input name="email" use:field={form} />
+   * {#if $errors.email}
+   *   <span id={form.getFieldErrorId('email')}>{$errors.email}</span>
+   * {/if}
+   * ```
+   */
+  getFieldErrorId(field: FieldPath<T>): string;
+
+  /**
+   * Registers `element` as the one rendering the field at `field`, so it can
+   * be focused when a submission fails. The optional `options` are used for
+   * changes to the field's value made outside of the event handlers (e.g.
+   * through `bind:value`). Returns a function to unregister it.
+   *
+   * Elements bound through the `field` action are registered automatically.
+   */
+  registerField(
+    field: FieldPath<T>,
+    element: FieldElement,
+    options?: FieldOptions,
+  ): () => void;
+
   /**
    * Event handler for the input's `blur` event.
+   *
+   * The optional `options` override the form's configuration for the field
+   * in question.
    */
-  handleBlur(event: Event): void;
+  handleBlur(event: Event, options?: FieldOptions): void;
 
   /**
    * Event handler for the input's `change` event.
+   *
+   * The optional `options` override the form's configuration for the field
+   * in question.
    */
-  handleChange(event: Event): void;
+  handleChange(event: Event, options?: FieldOptions): void;
 
   /**
-   * Event handler for the input's `focus` event.
+   * Event handler for the input's `focus` event, marks the field as
+   * visited. Fields are marked as touched on `blur` instead.
+   *
+   * The optional `options` override the form's configuration for the field
+   * in question.
    */
-  handleFocus(event: Event): void;
+  handleFocus(event: Event, options?: FieldOptions): void;
 
   /**
    * Event handler for the input's `input` event.
@@ -98,7 +662,7 @@ export type FormInstance<T extends object> = {
    *
    * [1]: https://stackoverflow.com/a/57393751/9888500
    */
-  handleInput(event: Event): void;
+  handleInput(event: Event, options?: FieldOptions): void;
 
   /**
    * Event handler for the form's submit event.
@@ -107,21 +671,103 @@ export type FormInstance<T extends object> = {
    * default behavior (`event.preventDefault`).
    *
    * Sets the `isSubmitting` store to `true` which can be used as a sentinel
-   * value for a loading UI. If the `validationSchema` is available in the
-   * `FormConfig`, then the `isValidating` store value will be `true` as well.
+   * value for a loading UI. If a `validator` or a `validationSchema` is
+   * available in the `FormConfig`, then the `isValidating` store value will
+   * be `true` as well.
+   *
+   * Errors thrown by `onSubmit` are stored in `lastSubmitError` and provided
+   * to `onSubmitError` if available, otherwise they are re-thrown.
    */
   handleSubmit(event: Event): Promise<void>;
 
+  /**
+   * Submits the form programmatically, going through the same validation
+   * and lifecycle as `handleSubmit`.
+   *
+   * If provided, `onSubmit` is executed instead of the one from the
+   * `FormConfig` (e.g. to submit through SvelteKit's `use:enhance`).
+   */
+  submit(onSubmit?: FormConfig<T, O>['onSubmit']): Promise<void>;
+
+  /**
+   * Tears down the form: releases internal subscriptions, cancels pending
+   * validations and ignores any further state update.
+   *
+   * Called automatically when the component that created the form is
+   * destroyed.
+   */
+  destroy(): void;
+
   /**
    * Resets form values back to the initial values
+   *
+   * The draft persisted for the form is removed as well. If `history` is
+   * enabled, resetting is recorded in the history so it can be undone.
    */
   reset(): void;
 
+  /**
+   * A readable store which holds a boolean `true` if there are changes to
+   * undo. Always `false` if `history` is not enabled.
+   */
+  canUndo: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` if there are undone
+   * changes to redo. Always `false` if `history` is not enabled.
+   */
+  canRedo: Readable<boolean>;
+
+  /**
+   * Restores the form values previous to the last recorded change, if
+   * `history` is enabled.
+   */
+  undo(): void;
+
+  /**
+   * Restores the form values undone last, if `history` is enabled.
+   */
+  redo(): void;
+
+  /**
+   * A readable store which holds the index of the current step. Always `0`
+   * if `steps` are not configured.
+   */
+  currentStep: Readable<number>;
+
+  /**
+   * Configured steps along with per-step `isValid` and `isDirty` stores.
+   */
+  steps: WizardStep[];
+
+  /**
+   * Validates the fields of the current step and moves to the next step if
+   * they are valid.
+   *
+   * Resolves to `false` if the current step is not valid, is the last one or
+   * `steps` are not configured.
+   */
+  next(): Promise<boolean>;
+
+  /**
+   * Moves to the previous step without validating the current one.
+   */
+  back(): void;
+
+  /**
+   * Moves to `step`. Moving forward validates every step in between and
+   * stops at the first invalid one, resolving to `false`.
+   */
+  goTo(step: number): Promise<boolean>;
+
   /**
    * Imperatively sets the initial values for the current form.
    *
    * This is useful when trying to update values of a form after changing them
    * to detect `isModified` with different values.
+   *
+   * If `history` is enabled, the history is cleared given that the new
+   * initial values become the baseline of the form.
    */
   setInitialValues: SetInitialValues<T>;
 
@@ -140,34 +786,65 @@ export type FormInstance<T extends object> = {
 
   /**
    * Imperatively sets the value for the field with the name provided.
+   *
+   * Nested fields are addressed using dot and/or bracket notation, e.g.
+   * `setFieldValue('address.city', 'Caracas')`.
+   *
+   * If `shouldValidateField` is `false`, the field is not validated even if
+   * `validateOnInput`, `validateOnChange` or the validation `mode` would do
+   * so for changes to its value.
    */
   setFieldValue(
-    field: keyof T,
-    value: string | number | boolean | string[] | number[] | null,
+    field: FieldPath<T>,
+    value: unknown,
     shouldValidateField?: boolean,
   ): void;
 
   subscriptions: Subscriptions;
 
   /**
-   * Form touched (e.g. clicked) fields.
+   * Form touched (e.g. blurred) fields.
    *
    * A readable store that holds form fields which have been interacted by
-   * the user.
+   * the user. Mirrors the nested shape of the form values.
+   */
+  touched: Readable<FormTouched<T>>;
+
+  /**
+   * Form visited (e.g. focused) fields.
+   *
+   * A readable store that holds form fields which have received focus, even
+   * if they have not been blurred yet. Mirrors the nested shape of the form
+   * values.
    */
-  touched: Readable<Record<keyof T, boolean>>;
+  visited: Readable<FormTouched<T>>;
 
   /**
-   * Validates a single field using the provided `validationSchema`
-   * asynchronously.
+   * Validates the whole form using the provided `validator` or
+   * `validationSchema`, updating the `errors` store.
+   *
+   * Resolves to `true` if the form is valid. Validations of single fields in
+   * progress are discarded.
+   */
+  validateForm(): Promise<boolean>;
+
+  /**
+   * Validates a single field using the provided `validator` or
+   * `validationSchema` asynchronously.
+   *
+   * Starting a new validation for a field discards the result of any
+   * previous validation still in progress for the same field, so stale
+   * results never overwrite newer ones.
+   *
+   * Rejects with the error thrown by the validator, if any.
    */
-  validateField(field: keyof T): Promise<void>;
+  validateField(field: FieldPath<T>): Promise<void>;
 
   /**
-   * Validates a single field using the provided `validationSchema`
-   * synchronously.
+   * Validates a single field using the provided `validator` or
+   * `validationSchema` synchronously.
    */
-  validateFieldSync(field: keyof T): void;
+  validateFieldSync(field: FieldPath<T>): void;
 
   /**
    * Current form values.
@@ -206,27 +883,152 @@ export type FormInstance<T extends object> = {
   values: Writable<T>;
 };
 
-export type FormConfig<T extends object> = {
+export type FormConfig<
+  T extends object,
+  O = T,
+  E extends FieldError = string,
+> = {
   /**
    * If `true`, validation errors are printed to the console.
    */
   debug?: boolean;
 
   /**
-   * Form's fields initial values.
-   *
+   * Policy to decide which errors are included in the `visibleErrors`
+   * store. Defaults to `always`.
+   */
+  errorDisplay?: ErrorDisplayPolicy;
+
+  /**
+   * Per-field configuration, keyed by the field path.
+   *
+   * ```ts
+   * fields: {
+   *   birthday: { valueAsDate: true },
+   *   'address.zip': { parser: (element) => element.value.trim() },
+   *   companyName: { when: (values) => values.isBusiness },
+   * }
+   * ```
+   */
+  fields?: Record<string, FieldConfig<T>>;
+
+  /**
+   * Wether to focus and scroll into view the first invalid field registered
+   * through `registerField` (e.g. by the `field` action) when a submission
+   * fails. Defaults to `true`.
+   */
+  focusOnError?: boolean;
+
+  /**
+   * Enables undo and redo of changes to the form values.
+   *
+   * Snapshots of the values are recorded whenever `setFieldValue`,
+   * `handleInput`, `handleChange`, `reset` or a `fieldArray` helper change
+   * them. Changes to the same field in quick succession (e.g. keystrokes)
+   * are coalesced into a single snapshot.
+   */
+  history?: boolean | HistoryConfig;
+
+  /**
+   * Prefix for the element ids generated by the form (e.g. by
+   * `getFieldErrorId`). Defaults to an automatically generated prefix, set
+   * it when rendering on the server to keep ids stable while hydrating.
+   */
+  id?: string;
+
+  /**
+   * Form's fields initial values.
+   *
    * This object is required to initialize a new form, it's used to track
    * changed values and to initialize the form values.
    */
   initialValues: T;
 
+  /**
+   * Persists the form values as a draft in a storage (e.g. `localStorage`)
+   * which is restored when the form is created again.
+   *
+   * The draft is saved whenever the values change and removed after a
+   * successful submission, on `reset` or when the values are the initial
+   * ones.
+   *
+   * ```ts
+   * persist: {
+   *   key: 'signup-form',
+   *   storage: sessionStorage,
+   *   version: 2,
+   *   exclude: ['password'],
+   * }
+   * ```
+   */
+  persist?: PersistConfig;
+
+  /**
+   * Splits the form into steps (e.g. an onboarding wizard), each one with its
+   * own fields and, optionally, its own `validator` or `validationSchema`.
+   * Steps without validation settings use the form's ones.
+   *
+   * `handleSubmit` moves to the next step until the last one is reached,
+   * then the whole form is validated and `onSubmit` is executed.
+   *
+   * ```ts
+   * steps: [
+   *   { fields: ['email', 'password'], validationSchema: accountSchema },
+   *   { fields: ['address'], validationSchema: addressSchema },
+   * ]
+   * ```
+   */
+  steps?: WizardStepConfig<T>[];
+
   /**
    * Callback to execute when `handleSubmit` is invoked.
    *
    * Form values are provided to this callback as the first argument and
-   * `helpers` to update form state.
+   * `helpers` to update form state. If the `validator` transforms the values
+   * (e.g. Yup's cast output), the transformed values are provided instead.
+   *
+   * Can be omitted if the form is submitted through `enhanceForm` instead.
+   */
+  onSubmit?(values: O, helpers: OnSubmitHelpers<T>): Promise<void> | void;
+
+  /**
+   * Callback to execute when `handleSubmit` is invoked and the form values
+   * are not valid.
+   *
+   * Validation errors are provided to this callback as the first argument.
+   */
+  onInvalid?(errors: FormErrors<T, E>): Promise<void> | void;
+
+  /**
+   * Callback to execute when the `onSubmit` callback throws an error.
+   *
+   * If provided, the error is not re-thrown by `handleSubmit`. Not executed
+   * for `SubmitFailure` errors, which are never re-thrown.
+   */
+  onSubmitError?(error: unknown): Promise<void> | void;
+
+  /**
+   * If `true`, the whole form is validated whenever the values change to
+   * keep the `isValid` store up to date. The `errors` store is not updated
+   * by these validations.
+   */
+  liveValidation?: boolean;
+
+  /**
+   * Events which trigger the validation of fields before the first
+   * submission attempt, e.g. `onSubmit` to wait until the form is submitted.
+   *
+   * Applies whether fields are bound through the event handlers or through
+   * `bind:value`. When set, the `validateOnBlur`, `validateOnChange`,
+   * `validateOnFocus` and `validateOnInput` settings are ignored.
    */
-  onSubmit(values: T, helpers: OnSubmitHelpers<T>): Promise<void> | void;
+  mode?: ValidationMode;
+
+  /**
+   * Events which trigger the validation of fields after the first
+   * submission attempt. Defaults to `onChange` when `mode` is set.
+   */
+  reValidateMode?: ReValidateMode;
 
   /**
    * Wether to validate form fields whenever `handleBlur` is executed.
@@ -234,7 +1036,15 @@ export type FormConfig<T extends object> = {
   validateOnBlur?: boolean;
 
   /**
-   * Wether to validate form fields whenever `handleChange` is executed.
+   * Wether to retrieve the value of `date`, `datetime-local` and `time`
+   * inputs as `Date` instances instead of ISO 8601 strings.
+   */
+  valueAsDate?: boolean;
+
+  /**
+   * Wether to validate form fields whenever `handleChange` is executed, or
+   * whenever their value changes through the `values` store (e.g.
+   * `bind:value`).
    */
   validateOnChange?: boolean;
 
@@ -244,45 +1054,255 @@ export type FormConfig<T extends object> = {
   validateOnFocus?: boolean;
 
   /**
-   * Wether to validate form fields whenever `handleInput` is executed.
+   * Wether to validate form fields whenever `handleInput` is executed, or
+   * whenever their value changes through the `values` store (e.g.
+   * `bind:value`) debounced by `validationDebounce`.
    */
   validateOnInput?: boolean;
 
+  /**
+   * Milliseconds to wait after the last `input` event before validating a
+   * field when `validateOnInput` is enabled. Can be overridden per field.
+   */
+  validationDebounce?: number;
+
+  /**
+   * Adapter used to validate form values.
+   *
+   * Built-in adapters are available for [Yup][1] (`yupValidator`), [Zod][2]
+   * (`zodValidator`) and plain validation functions (`functionValidator`).
+   * Takes precedence over `validationSchema`.
+   *
+   * [1]: https://github.com/jquense/yup
+   * [2]: https://zod.dev
+   */
+  validator?: Validator<T>;
+
   /**
    * A [Yup][1] schema used to validate form values.
    *
+   * Shorthand for `validator: yupValidator(validationSchema, validationOptions)`.
+   *
+   * Values provided to `onSubmit` are the ones cast by the schema, typed as
+   * its `InferType` unless the type of the form values is provided
+   * explicitly (e.g. `newForm<Values>(...)`).
+   *
    * [1]: https://github.com/jquense/yup
    */
-  validationSchema?: Schema;
+  validationSchema?: YupSchema<O> | YupSchema;
   /**
    * [Yup][1] validation options used internally
    *
    * [1]: https://github.com/jquense/yup
    */
-  validationOptions?: ValidateOptions;
+  validationOptions?: YupValidateOptions;
+
+  /**
+   * Builds the message for each failed validation out of its type, params
+   * and path, e.g. to translate messages at display time.
+   *
+   * ```ts
+   * formatError: ({ type, params }) => t(`errors.${type}`, params),
+   * ```
+   */
+  formatError?: FormatError;
+
+  /**
+   * If `true`, the `errors` store holds every message reported for each
+   * field as a `string[]` (e.g. every failed password requirement) instead
+   * of a single message.
+   */
+  multipleErrors?: boolean;
 };
 
 /**
- * Retrieves a HTML Input element instance value based on the input's type.
+ * HTML elements supported as form fields.
+ */
+export type FieldElement =
+  | HTMLInputElement
+  | HTMLSelectElement
+  | HTMLTextAreaElement;
+
+/**
+ * Retrieves a HTML field element instance value based on the element's type.
  *
  * Given a type, `getInputValue` will retrieve the value as follows:
  *
- * - `number` or `range`: Retrieve the `number` equivalent using `+` sign.
- * - `file`: Retrieve the selected file(s) using `inputElement.files`.
+ * - `number` or `range`: Retrieve the `number` equivalent using `+` sign,
+ * or `null` if the input is empty.
+ * - `checkbox`: Retrieve the `checked` state as a `boolean`. If the
+ * `currentValue` of the field is an array (e.g. a checkbox group), the
+ * checkbox's value is added to or removed from a copy of the array instead.
+ * - `radio`: Retrieve the value if the radio is checked, otherwise the
+ * `currentValue` is kept.
+ * - `file`: Retrieve the selected files as a `FileList` if the input accepts
+ * `multiple` files, otherwise the selected `File` or `null`.
+ * - `date`, `datetime-local` or `time`: Retrieve the ISO 8601 string held by
+ * the input, or a `Date` instance if `options.valueAsDate` is `true`. Empty
+ * inputs are retrieved as `null`.
+ * - `select-multiple`: Retrieve the values of the selected options.
  * - As fallback retrieves the value _as is_.
  */
 export const getInputValue = (
-  inputElement: HTMLInputElement,
-): string | number | boolean | null => {
+  inputElement: FieldElement,
+  currentValue?: unknown,
+  options?: InputValueOptions,
+): string | number | boolean | string[] | Date | File | FileList | null => {
   const type = inputElement.type;
 
   if (type.match(/^(number|range)$/)) {
-    return +inputElement.value;
+    return inputElement.value === '' ? null : +inputElement.value;
+  }
+
+  if (type === 'checkbox') {
+    const { checked, value } = inputElement as HTMLInputElement;
+
+    if (Array.isArray(currentValue)) {
+      const otherValues = currentValue.filter((item) => item !== value);
+
+      return checked ? [...otherValues, value] : otherValues;
+    }
+
+    return checked;
+  }
+
+  if (type === 'radio') {
+    const { checked, value } = inputElement as HTMLInputElement;
+
+    if (checked) {
+      return value;
+    }
+
+    return (currentValue as string) ?? null;
+  }
+
+  if (type === 'file') {
+    const { files, multiple } = inputElement as HTMLInputElement;
+
+    if (multiple) {
+      return files;
+    }
+
+    return files?.[0] ?? null;
+  }
+
+  if (type.match(/^(date|datetime-local|time)$/)) {
+    if (inputElement.value === '') {
+      return null;
+    }
+
+    if (options?.valueAsDate) {
+      const { valueAsDate, valueAsNumber } = inputElement as HTMLInputElement;
+
+      if (valueAsDate) {
+        return valueAsDate;
+      }
+
+      return Number.isNaN(valueAsNumber) ? null : new Date(valueAsNumber);
+    }
+
+    return inputElement.value;
+  }
+
+  if (type === 'select-multiple') {
+    return Array.from(
+      (inputElement as HTMLSelectElement).selectedOptions,
+      (option) => option.value,
+    );
   }
 
   return inputElement.value;
 };
 
+/**
+ * Compares `currentValue` with `initialValue` deeply, returning a `boolean`
+ * for every leaf field which mirrors the nested shape of both values.
+ */
+const getDirtyFields = (
+  initialValue: unknown,
+  currentValue: unknown,
+): unknown => {
+  if (isPlainObject(currentValue)) {
+    const initialObject = isPlainObject(initialValue) ? initialValue : {};
+    const keys = new Set([
+      ...Object.keys(initialObject),
+      ...Object.keys(currentValue),
+    ]);
+
+    return Object.fromEntries(
+      Array.from(keys, (key) => [
+        key,
+        getDirtyFields(initialObject[key], currentValue[key]),
+      ]),
+    );
+  }
+
+  if (Array.isArray(currentValue)) {
+    const initialArray = Array.isArray(initialValue) ? initialValue : [];
+    const length = Math.max(initialArray.length, currentValue.length);
+
+    return Array.from({ length }, (_, index) =>
+      getDirtyFields(initialArray[index], currentValue[index]),
+    );
+  }
+
+  return !isEqual(initialValue, currentValue);
+};
+
+/**
+ * Number of forms created, used to generate unique element ids.
+ */
+let formsCount = 0;
+
+/**
+ * Checks whether `path` is flagged by `paths`, either because it's nested in
+ * one of them or because one of them is nested in `path`.
+ */
+const isPathFlagged = (paths: string[], path: string): boolean =>
+  paths.some(
+    (flaggedPath) =>
+      isWithinPaths(path, [flaggedPath]) || isWithinPaths(flaggedPath, [path]),
+  );
+
+/**
+ * Lists the paths set to `true` in a map of booleans such as `touched`.
+ */
+const getFlaggedPaths = (fields: unknown): string[] =>
+  Object.entries(flatten(fields))
+    .filter(([, value]) => value === true)
+    .map(([path]) => path);
+
+/**
+ * Replaces the errors from `errors` for which `isVisible` returns `false`
+ * with `null`, keeping the nested shape of `errors`.
+ */
+const filterErrors = (
+  errors: unknown,
+  isVisible: (path: string) => boolean,
+  segments: Array<string | number> = [],
+): unknown => {
+  if (isPlainObject(errors)) {
+    return Object.fromEntries(
+      Object.keys(errors).map((key) => [
+        key,
+        filterErrors(errors[key], isVisible, [...segments, key]),
+      ]),
+    );
+  }
+
+  // Arrays of messages belong to a single field (e.g. `multipleErrors`)
+  if (
+    Array.isArray(errors) &&
+    !errors.every((error) => typeof error === 'string')
+  ) {
+    return errors.map((error, index) =>
+      filterErrors(error, isVisible, [...segments, index]),
+    );
+  }
+
+  return errors && !isVisible(joinPath(segments)) ? null : errors;
+};
+
 /**
  * Creates a new form instance with an `errors` and `values` store.
  *
@@ -328,13 +1348,27 @@ export const getInputValue = (
  * </form>
  * ```
  */
-export type NewFormFn = <T extends object>(
-  config: FormConfig<T>,
-) => FormInstance<T>;
+export type NewFormFn = {
+  <T extends object, O = T>(
+    config: FormConfig<T, O, string[]> & { multipleErrors: true },
+  ): FormInstance<T, O, string[]>;
+  <T extends object, O = T>(
+    config: FormConfig<T, O> & { multipleErrors?: false },
+  ): FormInstance<T, O>;
+  <T extends object, O = T>(config: FormConfig<T, O, FieldError>): FormInstance<
+    T,
+    O,
+    FieldError
+  >;
+};
 
-export const newForm: NewFormFn = <T extends object>(
-  config: FormConfig<T>,
-): FormInstance<T> => {
+export const newForm: NewFormFn = <
+  T extends object,
+  O = T,
+  E extends FieldError = string,
+>(
+  config: FormConfig<T, O, E>,
+): FormInstance<T, O, E> => {
   if (typeof config === 'undefined') {
     throw new TypeError(
       'You must provide a config to "newForm". Expected "config" to be an object, received "undefined" instead.',
@@ -347,239 +1381,1154 @@ export const newForm: NewFormFn = <T extends object>(
     );
   }
 
-  const __initialValues = writable(clone(config.initialValues) as T);
+  let __isDestroyed = false;
+
+  /**
+   * Creates a writable store which ignores updates once the form is
+   * destroyed.
+   */
+  const state = <S>(value: S): Writable<S> => {
+    const store = writable(value);
+
+    return {
+      subscribe: store.subscribe,
+      set: (nextValue) => {
+        if (!__isDestroyed) {
+          store.set(nextValue);
+        }
+      },
+      update: (updater) => {
+        if (!__isDestroyed) {
+          store.update(updater);
+        }
+      },
+    };
+  };
+
+  const __initialValues = state(clone(config.initialValues) as T);
+
+  const __draft = config.persist ? loadDraft<T>(config.persist) : null;
 
-  const __isSubmitting = writable(false);
+  const __isSubmitting = state(false);
 
-  const __isValidating = writable(false);
+  const __isValidating = state(false);
 
-  const __errors = writable(clone(get(__initialValues), null) as FormErrors<T>);
+  const __formError = state<string | undefined>(undefined);
 
-  const __isDirty = writable(false);
+  const __lastSubmitError = state<unknown>(null);
 
-  const __touched = writable(
-    clone(get(__initialValues), false) as Record<keyof T, boolean>,
+  const __submitCount = state(0);
+
+  const __submitState = state<SubmitState>('idle');
+
+  const __errors = state(clone(get(__initialValues), null) as FormErrors<T, E>);
+
+  const __isLiveValid = state(!config.liveValidation);
+
+  const __touched = state(
+    mergeDraft(
+      clone(get(__initialValues), false) as FormTouched<T>,
+      __draft?.touched,
+    ),
   );
 
-  const values = writable({
-    ...get(__initialValues),
-  });
+  const __visited = state(clone(get(__initialValues), false) as FormTouched<T>);
+
+  /**
+   * Paths of the fields whose value changed, used by the `onBlurAfterEdit`
+   * error display policy.
+   */
+  const __editedFields = state<string[]>([]);
+
+  /**
+   * Paths of the fields whose errors are visible regardless of the error
+   * display policy, such as the fields from wizard steps.
+   */
+  const __revealedFields = state<string[]>([]);
+
+  const __validatingFields = state(
+    clone(get(__initialValues), false) as FieldsMap<T, boolean>,
+  );
+
+  const values = state(
+    mergeDraft(clone(get(__initialValues)) as T, __draft?.values),
+  );
+
+  const __history = config.history
+    ? createHistory<T>(config.history === true ? {} : config.history)
+    : undefined;
+
+  /**
+   * Records the current form values in the history, if enabled.
+   */
+  const recordHistory = (key?: string): void => {
+    if (__isDestroyed) {
+      return;
+    }
+
+    __history?.record(clone(get(values)) as T, key);
+  };
+
+  const undo = (): void => {
+    const previousValues = __history?.undo(clone(get(values)) as T);
+
+    if (previousValues) {
+      values.set(previousValues);
+    }
+  };
+
+  const redo = (): void => {
+    const nextValues = __history?.redo(clone(get(values)) as T);
+
+    if (nextValues) {
+      values.set(nextValues);
+    }
+  };
 
   const clearErrors = (): void => {
-    __errors.set(clone(get(__initialValues), null) as FormErrors<T>);
+    __errors.set(clone(get(__initialValues), null) as FormErrors<T, E>);
+    __formError.set(undefined);
   };
 
-  const setFieldError = (field: keyof T, message?: string): void => {
-    __errors.update((currentState) => ({
-      ...currentState,
-      [field]: message,
-    }));
+  const setFieldError = (field: FieldPath<T>, message?: FieldError): void => {
+    __errors.update((currentState) => setIn(currentState, field, message));
   };
 
-  const setFieldTouched = (field: keyof T, value = true): void => {
+  const setFieldTouched = (field: FieldPath<T>, value = true): void => {
     if (typeof value !== 'boolean') {
       throw new TypeError(
         `Expected a "boolean" value for "setFieldTouched". Received "${typeof value}" instead.`,
       );
     }
 
-    __touched.update((currentValue) => ({
-      ...currentValue,
-      [field]: value,
-    }));
+    __touched.update((currentValue) => setIn(currentValue, field, value));
   };
 
   const setInitialValues = (initialValues: T) => {
     __initialValues.set(clone(initialValues) as T);
+    __history?.clear();
   };
 
+  const __fieldConditions = Object.entries(config.fields ?? {})
+    .filter(([, fieldConfig]) => typeof fieldConfig.when === 'function')
+    .map(([path, fieldConfig]) => ({
+      path: joinPath(toPath(path)),
+      when: fieldConfig.when,
+      keepValue: Boolean(fieldConfig.keepValue),
+    }));
+
   /**
-   * Updates the `errors` store with an instance of Yup's `ValidationError`.
+   * Retrieves the paths of the fields whose `when` condition is not met by
+   * `currentValues`.
    */
-  const setYupValidationErrors = (error: ValidationError): void => {
-    if ('path' in error && Array.isArray(error?.errors)) {
-      setFieldError(error.path as keyof T, error.errors[0]);
-      return;
-    }
-
-    console.error('Missing "path" and "errors" array.');
-  };
+  const getInactiveFields = (currentValues: T): string[] =>
+    __fieldConditions
+      .filter(({ when }) => !when(currentValues))
+      .map(({ path }) => path);
 
-  const validateField = async (field: keyof T): Promise<void> => {
-    try {
-      const currentFormValues = get(values);
+  const isFieldActive = (
+    field: FieldPath<T>,
+    currentValues: T = get(values),
+  ): boolean =>
+    !isWithinPaths(joinPath(toPath(field)), getInactiveFields(currentValues));
 
-      await config.validationSchema.validateAt(
-        field as string,
-        currentFormValues,
-      );
-      setFieldError(field, null);
-    } catch (error) {
-      setYupValidationErrors(error);
+  /**
+   * Wraps `fieldsValidator` so errors for inactive fields are never
+   * reported.
+   */
+  const withFieldConditions = (
+    fieldsValidator?: Validator<T>,
+  ): Validator<T> | undefined => {
+    if (!fieldsValidator || __fieldConditions.length === 0) {
+      return fieldsValidator;
     }
-  };
 
-  const validateFieldSync = (field: keyof T): void => {
-    try {
-      const currentFormValues = get(values);
+    const omitInactive = (
+      errors: ValidationErrorsMap,
+      currentValues: T,
+    ): ValidationErrorsMap => {
+      const inactiveFields = getInactiveFields(currentValues);
 
-      config.validationSchema.validateSyncAt(
-        field as string,
-        currentFormValues,
+      return Object.fromEntries(
+        Object.entries(errors).filter(
+          ([path]) => !isWithinPaths(path, inactiveFields),
+        ),
       );
-      __errors.update((currentState) => ({
-        ...currentState,
-        [field]: undefined,
-      }));
-    } catch (error) {
-      setYupValidationErrors(error);
-    }
-  };
+    };
+
+    return {
+      validate: async (currentValues) =>
+        omitInactive(
+          await fieldsValidator.validate(currentValues),
+          currentValues,
+        ),
+      validateSync: (currentValues) =>
+        omitInactive(
+          fieldsValidator.validateSync(currentValues),
+          currentValues,
+        ),
+      validateWithOutput:
+        fieldsValidator.validateWithOutput &&
+        (async (currentValues) => {
+          const { errors, output } = await fieldsValidator.validateWithOutput(
+            currentValues,
+          );
+          const activeErrors = omitInactive(errors, currentValues);
+
+          if (
+            typeof output !== 'undefined' ||
+            Object.keys(activeErrors).length > 0
+          ) {
+            return { errors: activeErrors, output };
+          }
 
-  const setFieldValue = (
-    field: keyof T,
-    value: string | number | boolean | null,
-  ): void => {
-    values.update((currentValues) => ({
-      ...currentValues,
-      [field]: value,
-    }));
+          // Only inactive fields are invalid, so the output is built out of
+          // the active fields instead
+          const activeValues = omitInactiveFields(currentValues);
+
+          return {
+            errors: activeErrors,
+            output: fieldsValidator.cast
+              ? fieldsValidator.cast(activeValues)
+              : (await fieldsValidator.validateWithOutput(activeValues)).output,
+          };
+        }),
+      cast: fieldsValidator.cast,
+      validateAt: async (path, currentValues) =>
+        isFieldActive(path, currentValues)
+          ? fieldsValidator.validateAt(path, currentValues)
+          : undefined,
+      validateSyncAt: (path, currentValues) =>
+        isFieldActive(path, currentValues)
+          ? fieldsValidator.validateSyncAt(path, currentValues)
+          : undefined,
+    };
   };
 
-  const checkIsDirty = (): boolean => {
-    const value = get(values);
-    const initialValues = get(__initialValues);
+  const validator: Validator<T> | undefined = withFieldConditions(
+    resolveValidator(config),
+  );
 
-    for (const key in initialValues) {
-      if (initialValues[key] !== value[key]) {
-        return true;
-      }
-    }
-    return false;
-  };
+  /**
+   * Turns a `ValidationErrorsMap` into the nested shape used by the `errors`
+   * store, which mirrors the shape of the form values.
+   */
+  const toFormErrors = (
+    validationErrors: ValidationErrorsMap,
+  ): FormErrors<T, E> =>
+    Object.entries(validationErrors).reduce(
+      (acc, [path, message]) => setIn(acc, path, message),
+      clone(get(values), null) as FormErrors<T, E>,
+    );
 
-  const reset = (): void => {
-    values.set(get(__initialValues));
-  };
+  const __fieldValidationRuns = new Map<string, number>();
 
-  const handleBlur = (event: Event): void => {
-    const target = event.target as HTMLInputElement;
-    const name = target.name as keyof T;
+  const __fieldValidationTimers = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
 
-    setFieldTouched(name);
+  /**
+   * Starts a new validation run for the field at `field`, cancelling any
+   * scheduled validation and discarding any validation in progress for the
+   * same field.
+   *
+   * Returns a function which checks whether the run is still the latest one.
+   */
+  const startFieldValidationRun = (field: FieldPath<T>): (() => boolean) => {
+    const path = joinPath(toPath(field));
+    const run = (__fieldValidationRuns.get(path) ?? 0) + 1;
 
-    if (config.validateOnBlur) {
-      validateField(name);
-    }
+    clearTimeout(__fieldValidationTimers.get(path));
+    __fieldValidationTimers.delete(path);
+    __fieldValidationRuns.set(path, run);
+
+    return () => __fieldValidationRuns.get(path) === run;
   };
 
-  const handleChange = (event: Event): void => {
-    const target = event.target as HTMLInputElement;
-    const name = target.name as keyof T;
-    const value = getInputValue(target);
+  /**
+   * Cancels scheduled field validations and discards every field validation
+   * in progress.
+   */
+  const cancelFieldValidations = (): void => {
+    __fieldValidationTimers.forEach((timer) => clearTimeout(timer));
+    __fieldValidationTimers.clear();
+    __fieldValidationRuns.forEach((run, path) =>
+      __fieldValidationRuns.set(path, run + 1),
+    );
+    __validatingFields.set(
+      clone(get(__initialValues), false) as FieldsMap<T, boolean>,
+    );
+  };
 
-    setFieldValue(name, value);
+  const setFieldValidating = (field: FieldPath<T>, value: boolean): void => {
+    __validatingFields.update((currentValue) =>
+      setIn(currentValue, field, value),
+    );
   };
 
-  const handleFocus = (event: Event): void => {
-    const target = event.target as HTMLInputElement;
-    const name = target.name as keyof T;
+  const setErrors = (errors: ValidationErrorsMap): void => {
+    const currentValues = get(values);
+    const fieldErrors: ValidationErrorsMap = {};
+    let formError: string | undefined;
 
-    setFieldTouched(name);
+    Object.entries(errors).forEach(([path, message]) => {
+      if (hasIn(currentValues, path)) {
+        fieldErrors[path] = message;
+        return;
+      }
 
-    if (config.validateOnFocus) {
-      validateField(name);
-    }
+      formError = formError ?? (Array.isArray(message) ? message[0] : message);
+    });
+
+    __errors.set(toFormErrors(fieldErrors));
+    __formError.set(formError);
   };
 
-  const handleInput = (event: Event): void => {
-    const target = event.target as HTMLInputElement;
-    const name = target.name;
-    const value = getInputValue(target);
+  /**
+   * Builds the value for `field` in stores mirroring the form values (e.g.
+   * `errors` or `touched`), nested fields are set to `value` as well.
+   */
+  const fieldsMap = <V>(field: string, value: V): unknown => {
+    const fieldValue = getIn(get(values), field);
 
-    setFieldValue(name as keyof T, value);
+    return isPlainObject(fieldValue) ? clone(fieldValue, value) : value;
   };
 
-  const handleSubmit = async (event: Event): Promise<void> => {
-    try {
-      if (config?.onSubmit && typeof config.onSubmit === 'function') {
-        if (
-          event?.preventDefault &&
-          typeof event.preventDefault === 'function'
-        ) {
-          event.preventDefault();
-        }
+  /**
+   * Replaces the errors for `fields` with `errors` and marks such fields as
+   * touched.
+   */
+  const setStepErrors = (
+    fields: string[],
+    errors: ValidationErrorsMap,
+  ): void => {
+    __errors.update((currentErrors) =>
+      Object.entries(errors).reduce(
+        (acc, [path, message]) => setIn(acc, path, message),
+        fields.reduce(
+          (acc, field) => setIn(acc, field, fieldsMap(field, null)),
+          currentErrors,
+        ),
+      ),
+    );
+    __touched.update((currentTouched) =>
+      fields.reduce(
+        (acc, field) => setIn(acc, field, fieldsMap(field, true)),
+        currentTouched,
+      ),
+    );
+    __revealedFields.update((revealedFields) =>
+      Array.from(new Set([...revealedFields, ...fields])),
+    );
+  };
 
-        if (
-          event?.stopPropagation &&
-          typeof event.stopPropagation === 'function'
-        ) {
-          event.stopPropagation();
-        }
+  const __wizard = config.steps?.length
+    ? createWizard<T>(
+        config.steps.map((step) => ({
+          ...step,
+          validator: withFieldConditions(
+            resolveValidator({
+              formatError: config.formatError,
+              multipleErrors: config.multipleErrors,
+              ...step,
+            }),
+          ),
+        })),
+        {
+          values,
+          initialValues: __initialValues,
+          validator,
+          setStepErrors,
+          debug: config.debug,
+        },
+      )
+    : undefined;
+
+  const next = async (): Promise<boolean> => __wizard?.next() ?? false;
+
+  const back = (): void => {
+    __wizard?.back();
+  };
 
-        const currentValues = get(values);
+  const goTo = async (step: number): Promise<boolean> =>
+    __wizard?.goTo(step) ?? false;
 
-        clearErrors();
+  /**
+   * Checks whether the form has steps left before the last one.
+   */
+  const hasNextStep = (): boolean =>
+    Boolean(__wizard) && get(__wizard.currentStep) < __wizard.steps.length - 1;
 
-        __isSubmitting.set(true);
+  const validateField = async (field: FieldPath<T>): Promise<void> => {
+    if (!validator) {
+      return;
+    }
 
-        if (isSchema(config.validationSchema)) {
-          try {
-            __isValidating.set(true);
+    const isLatestRun = startFieldValidationRun(field);
 
-            await config.validationSchema.validate(
-              currentValues,
-              config.validationOptions
-                ? config.validationOptions
-                : { abortEarly: false },
-            );
-          } catch (error) {
-            if (config.debug) {
-              console.warn(error);
-            }
-
-            if (config.validationOptions?.abortEarly) {
-              const field = error.path as keyof T;
-              const message = error.errors[0];
-
-              __errors.set({
-                [field]: message,
-              } as FormErrors<T>);
-
-              return;
-            }
-
-            if (error?.inner) {
-              const validationErrors = error.inner.reduce(
-                (acc: FormErrors<T>, { message, path }) => {
-                  return {
-                    ...acc,
-                    [path]: message,
-                  };
-                },
-                {},
-              );
-
-              __errors.set(validationErrors);
-              return;
-            }
-
-            throw error;
-          } finally {
-            __isValidating.set(false);
-          }
-        }
+    setFieldValidating(field, true);
 
-        await config.onSubmit(currentValues, {
-          setFieldError,
-          setFieldValue,
-        });
+    try {
+      const currentFormValues = get(values);
+      const message = await validator.validateAt(field, currentFormValues);
+
+      if (isLatestRun()) {
+        setFieldError(field, message ?? null);
       }
     } finally {
-      __isSubmitting.set(false);
+      if (isLatestRun()) {
+        setFieldValidating(field, false);
+      }
     }
   };
 
+  /**
+   * Validates the field at `field` after `delay` milliseconds, restarting
+   * the delay if the field is scheduled again before it elapses.
+   *
+   * Errors thrown by the validator are only logged under `debug`.
+   */
+  const scheduleFieldValidation = (field: FieldPath<T>, delay = 0): void => {
+    const run = (): void => {
+      validateField(field).catch((error) => {
+        if (config.debug) {
+          console.error(error);
+        }
+      });
+    };
+
+    if (delay <= 0) {
+      run();
+      return;
+    }
+
+    const path = joinPath(toPath(field));
+
+    clearTimeout(__fieldValidationTimers.get(path));
+    __fieldValidationTimers.set(
+      path,
+      setTimeout(() => {
+        __fieldValidationTimers.delete(path);
+        run();
+      }, delay),
+    );
+  };
+
+  /**
+   * Validates the whole form updating the `errors` store, resolves to the
+   * validation result including the transformed values if available.
+   */
+  const runFormValidation = async (): Promise<ValidationResult> => {
+    if (!validator) {
+      return { errors: {} };
+    }
+
+    cancelFieldValidations();
+
+    try {
+      __isValidating.set(true);
+
+      const currentValues = get(values);
+      const result = validator.validateWithOutput
+        ? await validator.validateWithOutput(currentValues)
+        : { errors: await validator.validate(currentValues) };
+
+      if (Object.keys(result.errors).length > 0) {
+        if (config.debug) {
+          console.warn(result.errors);
+        }
+
+        __errors.set(toFormErrors(result.errors));
+        return result;
+      }
+
+      clearErrors();
+      return result;
+    } finally {
+      __isValidating.set(false);
+    }
+  };
+
+  const validateForm = async (): Promise<boolean> =>
+    Object.keys((await runFormValidation()).errors).length === 0;
+
+  let __liveValidationRun = 0;
+
+  /**
+   * Validates the whole form to update the `isValid` store without updating
+   * the `errors` store, results from stale runs are discarded.
+   */
+  const runLiveValidation = async (currentValues: T): Promise<void> => {
+    if (!validator) {
+      return;
+    }
+
+    const run = ++__liveValidationRun;
+
+    try {
+      const validationErrors = await validator.validate(currentValues);
+
+      if (run === __liveValidationRun) {
+        __isLiveValid.set(Object.keys(validationErrors).length === 0);
+      }
+    } catch (error) {
+      if (config.debug) {
+        console.error(error);
+      }
+    }
+  };
+
+  const validateFieldSync = (field: FieldPath<T>): void => {
+    if (!validator) {
+      return;
+    }
+
+    startFieldValidationRun(field);
+    setFieldValidating(field, false);
+
+    try {
+      const currentFormValues = get(values);
+      const message = validator.validateSyncAt(field, currentFormValues);
+
+      setFieldError(field, message);
+    } catch (error) {
+      if (config.debug) {
+        console.error(error);
+      }
+    }
+  };
+
+  const __fieldsConfig: Record<string, FieldConfig<T>> = Object.fromEntries(
+    Object.entries(config.fields ?? {}).map(([path, fieldConfig]) => [
+      joinPath(toPath(path)),
+      fieldConfig,
+    ]),
+  );
+
+  /**
+   * Resolves the configuration for the field at `name`, the provided
+   * `options` take precedence over the form's `fields` configuration.
+   */
+  const getFieldConfig = (
+    name: string,
+    options?: FieldOptions,
+  ): FieldConfig<T> => ({
+    ...__fieldsConfig[joinPath(toPath(name))],
+    ...options,
+  });
+
+  const __id = config.id ?? `svelte-forms-${++formsCount}`;
+
+  const getFieldErrorId = (field: FieldPath<T>): string =>
+    `${__id}-${joinPath(toPath(field))}-error`;
+
+  /**
+   * Elements registered through `registerField` mapped to their field path
+   * and options.
+   */
+  const __fieldElements = new Map<
+    FieldElement,
+    { name: string; options?: FieldOptions }
+  >();
+
+  const registerField = (
+    field: FieldPath<T>,
+    element: FieldElement,
+    options?: FieldOptions,
+  ): (() => void) => {
+    __fieldElements.set(element, { name: joinPath(toPath(field)), options });
+
+    return () => {
+      __fieldElements.delete(element);
+    };
+  };
+
+  /**
+   * Focuses and scrolls into view the first registered element, in document
+   * order, whose field has an error.
+   */
+  const focusFirstInvalidField = async (): Promise<void> => {
+    if (config.focusOnError === false || __fieldElements.size === 0) {
+      return;
+    }
+
+    // Let the invalid step and the error messages render first
+    await tick();
+
+    const errorPaths = Object.entries(flatten(get(__errors)))
+      .filter(([, message]) => Boolean(message))
+      .map(([path]) => path);
+    const [element] = Array.from(__fieldElements)
+      .filter(
+        ([element, { name }]) =>
+          element.isConnected &&
+          !element.disabled &&
+          errorPaths.some((path) => isWithinPaths(path, [name])),
+      )
+      .map(([element]) => element)
+      .sort((a, b) =>
+        a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING
+          ? -1
+          : 1,
+      );
+
+    if (!element) {
+      return;
+    }
+
+    element.focus({ preventScroll: true });
+    element.scrollIntoView?.({ block: 'center' });
+  };
+
+  /**
+   * Resolves the validation mode for the field, `undefined` if the field is
+   * validated according to the `validateOn*` settings instead.
+   */
+  const getValidationMode = (
+    fieldConfig: FieldConfig<T>,
+  ): ValidationMode | undefined => {
+    const mode = fieldConfig.mode ?? config.mode;
+
+    if (get(__submitCount) === 0) {
+      return mode;
+    }
+
+    return (
+      fieldConfig.reValidateMode ??
+      config.reValidateMode ??
+      (mode ? 'onChange' : undefined)
+    );
+  };
+
+  /**
+   * Checks whether `trigger` validates the field at `name` according to its
+   * validation mode, `undefined` if the field has no validation mode.
+   */
+  const isValidationTrigger = (
+    name: string,
+    fieldConfig: FieldConfig<T>,
+    trigger: 'blur' | 'change',
+  ): boolean | undefined => {
+    switch (getValidationMode(fieldConfig)) {
+      case undefined:
+        return undefined;
+      case 'all':
+        return true;
+      case 'onBlur':
+        return trigger === 'blur';
+      case 'onChange':
+        return trigger === 'change';
+      case 'onTouched':
+        return (
+          trigger === 'blur' ||
+          isPathFlagged(getFlaggedPaths(get(__touched)), name)
+        );
+      default:
+        return false;
+    }
+  };
+
+  /**
+   * Wether the values change in progress skips the validation of the
+   * changed fields, e.g. values restored by `reset`.
+   */
+  let __skipsChangeValidation = false;
+
+  /**
+   * Changes the values through `update` without validating the changed
+   * fields.
+   */
+  const withoutChangeValidation = (update: () => void): void => {
+    __skipsChangeValidation = true;
+
+    try {
+      update();
+    } finally {
+      __skipsChangeValidation = false;
+    }
+  };
+
+  /**
+   * Field being changed by an event handler, along with the handler's
+   * options.
+   */
+  let __handlerChange: { name: string; options?: FieldOptions } | undefined;
+
+  /**
+   * Resolves the field which `path` belongs to, along with its options,
+   * either from the event handler in progress or from the registered
+   * elements.
+   */
+  const getChangedField = (
+    path: string,
+  ): { name: string; options?: FieldOptions; isHandlerChange: boolean } => {
+    if (__handlerChange && isWithinPaths(path, [__handlerChange.name])) {
+      return { ...__handlerChange, isHandlerChange: true };
+    }
+
+    for (const registeredField of Array.from(__fieldElements.values())) {
+      if (isWithinPaths(path, [registeredField.name])) {
+        return { ...registeredField, isHandlerChange: false };
+      }
+    }
+
+    return { name: path, isHandlerChange: false };
+  };
+
+  /**
+   * Validates exactly the fields changed between two snapshots of the
+   * values, so fields bound directly to the `values` store (e.g.
+   * `bind:value`) are validated as if bound through the event handlers.
+   *
+   * Changes made by the event handlers are only validated here according to
+   * the field's validation mode, the handlers take care of the `validateOn*`
+   * settings themselves.
+   */
+  const validateChangedFields = (
+    changedPaths: string[],
+    currentValues: T,
+  ): void => {
+    const fields = new Map(
+      changedPaths.map((path) => {
+        const { name, ...changedField } = getChangedField(path);
+
+        return [name, changedField];
+      }),
+    );
+
+    fields.forEach(({ options, isHandlerChange }, name) => {
+      // Removed fields, e.g. field array rows, have nothing to validate
+      if (!hasIn(currentValues, name)) {
+        return;
+      }
+
+      const fieldConfig = getFieldConfig(name, options);
+      const debounce =
+        fieldConfig.validationDebounce ?? config.validationDebounce;
+      const isTrigger = isValidationTrigger(name, fieldConfig, 'change');
+
+      if (typeof isTrigger === 'boolean') {
+        if (isTrigger) {
+          scheduleFieldValidation(name, debounce);
+        }
+
+        return;
+      }
+
+      if (isHandlerChange) {
+        return;
+      }
+
+      if (fieldConfig.validateOnInput ?? config.validateOnInput) {
+        scheduleFieldValidation(name, debounce);
+      } else if (fieldConfig.validateOnChange ?? config.validateOnChange) {
+        scheduleFieldValidation(name);
+      }
+    });
+  };
+
+  /**
+   * Retrieves the value for the field at `name` from its element.
+   */
+  const readFieldValue = (
+    element: FieldElement,
+    name: string,
+    fieldConfig: FieldConfig,
+  ): unknown => {
+    const currentValue = getIn(get(values), name);
+
+    const value = fieldConfig.parser
+      ? fieldConfig.parser(element, currentValue)
+      : getInputValue(element, currentValue, {
+          valueAsDate: fieldConfig.valueAsDate ?? config.valueAsDate,
+        });
+
+    return fieldConfig.parse ? fieldConfig.parse(value) : value;
+  };
+
+  const setFieldValue = (
+    field: FieldPath<T>,
+    value: unknown,
+    shouldValidateField = true,
+  ): void => {
+    // Avoid snapshots which undo nothing, e.g. `change` after `input` events
+    if (!isEqual(getIn(get(values), field), value)) {
+      recordHistory(joinPath(toPath(field)));
+    }
+
+    const update = () =>
+      values.update((currentValues) => setIn(currentValues, field, value));
+
+    if (shouldValidateField) {
+      update();
+    } else {
+      withoutChangeValidation(update);
+    }
+  };
+
+  /**
+   * Sets the value of the field at `name` on behalf of an event handler, so
+   * the change is validated with the handler's `options`.
+   */
+  const setFieldValueFromHandler = (
+    name: string,
+    value: unknown,
+    options?: FieldOptions,
+  ): void => {
+    __handlerChange = { name: joinPath(toPath(name)), options };
+
+    try {
+      setFieldValue(name, value);
+    } finally {
+      __handlerChange = undefined;
+    }
+  };
+
+  const __fieldArrayKeys = new Map<string, string[]>();
+
+  let __fieldArrayKeySequence = 0;
+
+  const createFieldArrayKey = (path: string): string =>
+    `${path}:${__fieldArrayKeySequence++}`;
+
+  /**
+   * Retrieves the row keys for the field array at `path`, creating keys for
+   * new rows and dropping keys for rows that no longer exist.
+   */
+  const getFieldArrayKeys = (path: string, length: number): string[] => {
+    const keys = (__fieldArrayKeys.get(path) ?? []).slice(0, length);
+
+    while (keys.length < length) {
+      keys.push(createFieldArrayKey(path));
+    }
+
+    __fieldArrayKeys.set(path, keys);
+
+    return keys;
+  };
+
+  const fieldArray = <V = unknown>(path: FieldPath<T>): FieldArray<V> => {
+    const getRows = <U>(state: unknown): U[] => {
+      const rows = getIn<U[]>(state, path);
+
+      return Array.isArray(rows) ? rows : [];
+    };
+
+    /**
+     * Applies `operation` to the rows of the field array on `values` and on
+     * the row keys, as well as on `errors` and `touched` when they hold rows
+     * for the field array. Rows added to `errors` and `touched` mirror the
+     * shape of the rows from `values`, with every field set to `value`.
+     */
+    const updateRows = (
+      operation: <U>(rows: U[], row: U | undefined) => U[],
+      row?: V,
+    ): void => {
+      const currentRows = getRows(get(values));
+      const mirrorRow = <U>(value: U, row: unknown): unknown =>
+        isPlainObject(row) ? clone(row, value) : value;
+      const alignRows =
+        <U>(value: U) =>
+        <S>(state: S): S => {
+          const rows = getIn(state, path);
+
+          if (!Array.isArray(rows)) {
+            return state;
+          }
+
+          const alignedRows = currentRows.map(
+            (currentRow, index) => rows[index] ?? mirrorRow(value, currentRow),
+          );
+
+          return setIn(
+            state,
+            path,
+            operation(alignedRows, mirrorRow(value, row)),
+          );
+        };
+
+      __fieldArrayKeys.set(
+        path,
+        operation(
+          getFieldArrayKeys(path, currentRows.length),
+          createFieldArrayKey(path),
+        ),
+      );
+      __errors.update(alignRows(null));
+      __touched.update(alignRows(false));
+      recordHistory();
+      values.update((currentValues) =>
+        setIn(currentValues, path, operation(getRows(currentValues), row)),
+      );
+    };
+
+    return {
+      items: derived(values, (currentValues) => {
+        const rows = getRows<V>(currentValues);
+        const keys = getFieldArrayKeys(path, rows.length);
+
+        return rows.map((value, index) => ({
+          key: keys[index],
+          index,
+          value,
+        }));
+      }),
+      push: (value: V): void =>
+        updateRows((rows, row) => [...rows, row], value),
+      insert: (index: number, value: V): void =>
+        updateRows((rows, row) => insertAt(rows, index, row), value),
+      remove: (index: number): void =>
+        updateRows((rows) => removeAt(rows, index)),
+      move: (from: number, to: number): void =>
+        updateRows((rows) => moveItem(rows, from, to)),
+      swap: (indexA: number, indexB: number): void =>
+        updateRows((rows) => swapItems(rows, indexA, indexB)),
+      replace: (index: number, value: V): void =>
+        updateRows(
+          (rows, row) =>
+            rows.map((current, currentIndex) =>
+              currentIndex === index ? row : current,
+            ),
+          value,
+        ),
+    };
+  };
+
+  const isFieldDirty = (field: FieldPath<T>): boolean =>
+    !isEqual(getIn(get(__initialValues), field), getIn(get(values), field));
+
+  const reset = (): void => {
+    recordHistory();
+    withoutChangeValidation(() => values.set(clone(get(__initialValues)) as T));
+
+    __editedFields.set([]);
+    discardDraft();
+  };
+
+  const handleBlur = (event: Event, options?: FieldOptions): void => {
+    const target = event.target as HTMLInputElement;
+    const name = options?.name ?? target.name;
+    const fieldConfig = getFieldConfig(name, options);
+
+    setFieldTouched(name);
+
+    if (
+      isValidationTrigger(name, fieldConfig, 'blur') ??
+      fieldConfig.validateOnBlur ??
+      config.validateOnBlur
+    ) {
+      scheduleFieldValidation(name);
+    }
+  };
+
+  const handleChange = (event: Event, options?: FieldOptions): void => {
+    const target = event.target as FieldElement;
+    const name = options?.name ?? target.name;
+    const fieldConfig = getFieldConfig(name, options);
+
+    setFieldValueFromHandler(
+      name,
+      readFieldValue(target, name, fieldConfig),
+      options,
+    );
+
+    if (
+      !getValidationMode(fieldConfig) &&
+      (fieldConfig.validateOnChange ?? config.validateOnChange)
+    ) {
+      scheduleFieldValidation(name);
+    }
+  };
+
+  const handleFocus = (event: Event, options?: FieldOptions): void => {
+    const target = event.target as HTMLInputElement;
+    const name = options?.name ?? target.name;
+    const fieldConfig = getFieldConfig(name, options);
+
+    __visited.update((currentVisited) => setIn(currentVisited, name, true));
+
+    if (
+      !getValidationMode(fieldConfig) &&
+      (fieldConfig.validateOnFocus ?? config.validateOnFocus)
+    ) {
+      scheduleFieldValidation(name);
+    }
+  };
+
+  const handleInput = (event: Event, options?: FieldOptions): void => {
+    const target = event.target as FieldElement;
+    const name = options?.name ?? target.name;
+    const fieldConfig = getFieldConfig(name, options);
+
+    setFieldValueFromHandler(
+      name,
+      readFieldValue(target, name, fieldConfig),
+      options,
+    );
+
+    if (
+      !getValidationMode(fieldConfig) &&
+      (fieldConfig.validateOnInput ?? config.validateOnInput)
+    ) {
+      scheduleFieldValidation(
+        name,
+        fieldConfig.validationDebounce ?? config.validationDebounce,
+      );
+    }
+  };
+
+  const submit = async (
+    onSubmit: FormConfig<T, O>['onSubmit'] = config.onSubmit,
+  ): Promise<void> => {
+    if (typeof onSubmit !== 'function') {
+      throw new TypeError('Missing "onSubmit" callback.');
+    }
+
+    let submitValues: unknown = get(values);
+
+    clearErrors();
+
+    __submitCount.update((submitCount) => submitCount + 1);
+    __lastSubmitError.set(null);
+    __isSubmitting.set(true);
+
+    try {
+      if (validator) {
+        __submitState.set('validating');
+
+        const { errors, output } = await runFormValidation();
+
+        if (Object.keys(errors).length > 0) {
+          __submitState.set('failed');
+          __wizard?.showFirstInvalidStep(
+            Object.entries(flatten(get(__errors)))
+              .filter(([, message]) => Boolean(message))
+              .map(([path]) => path),
+          );
+          await focusFirstInvalidField();
+          await config.onInvalid?.(get(__errors));
+          return;
+        }
+
+        submitValues = output ?? submitValues;
+      }
+
+      __submitState.set('submitting');
+
+      await onSubmit(omitInactiveFields(submitValues as T) as unknown as O, {
+        setErrors,
+        setFieldError,
+        setFieldValue,
+      });
+
+      __submitState.set('succeeded');
+      discardDraft();
+    } catch (error) {
+      __lastSubmitError.set(error);
+      __submitState.set('failed');
+
+      if (error instanceof SubmitFailure) {
+        return;
+      }
+
+      if (config.onSubmitError) {
+        await config.onSubmitError(error);
+        return;
+      }
+
+      throw error;
+    } finally {
+      __isSubmitting.set(false);
+    }
+  };
+
+  const handleSubmit = async (event: Event): Promise<void> => {
+    if (config?.onSubmit && typeof config.onSubmit === 'function') {
+      if (event?.preventDefault && typeof event.preventDefault === 'function') {
+        event.preventDefault();
+      }
+
+      if (
+        event?.stopPropagation &&
+        typeof event.stopPropagation === 'function'
+      ) {
+        event.stopPropagation();
+      }
+
+      if (hasNextStep()) {
+        if (!(await next())) {
+          await focusFirstInvalidField();
+        }
+
+        return;
+      }
+
+      await submit();
+    }
+  };
+
+  let __inactiveFields = getInactiveFields(get(values));
+
+  /**
+   * Clears the errors of the fields deactivated by `currentValues` and
+   * resets their values, unless `keepValue` is set.
+   */
+  const applyFieldConditions = (currentValues: T): void => {
+    const inactiveFields = getInactiveFields(currentValues);
+    const deactivatedFields = inactiveFields.filter(
+      (path) => !__inactiveFields.includes(path),
+    );
+
+    __inactiveFields = inactiveFields;
+
+    if (deactivatedFields.length === 0) {
+      return;
+    }
+
+    __errors.update((currentErrors) =>
+      deactivatedFields.reduce(
+        (acc, path) => setIn(acc, path, fieldsMap(path, null)),
+        currentErrors,
+      ),
+    );
+
+    const resetFields = deactivatedFields.filter(
+      (path) =>
+        !__fieldConditions.find((condition) => condition.path === path)
+          .keepValue,
+    );
+
+    if (resetFields.length > 0) {
+      values.update((nextValues) =>
+        resetFields.reduce((acc, path) => {
+          const initialValue = getIn(get(__initialValues), path);
+
+          return setIn(
+            acc,
+            path,
+            isPlainObject(initialValue) ? clone(initialValue) : initialValue,
+          );
+        }, nextValues),
+      );
+    }
+  };
+
+  /**
+   * Removes inactive fields from `currentValues`.
+   */
+  const omitInactiveFields = (currentValues: T): T =>
+    getInactiveFields(currentValues).reduce(
+      (acc, path) => unsetIn(acc, path),
+      currentValues,
+    );
+
+  /**
+   * Snapshot of the last form values, cloned since `bind:value` mutates the
+   * values object in place.
+   */
+  let __previousValues = clone(get(values)) as T;
+
   /**
    *
    * @param values - The internal form values store
@@ -588,35 +2537,187 @@ export const newForm: NewFormFn = <T extends object>(
    * side effects on this function will be executed whenever the form values
    * are updated.
    */
-  const handleValuesChange = (_: T): void => {
-    __isDirty.set(checkIsDirty());
+  const handleValuesChange = (currentValues: T): void => {
+    const changedFields = getChangedPaths(__previousValues, currentValues);
+
+    __previousValues = clone(currentValues) as T;
+
+    if (changedFields.length > 0) {
+      __editedFields.update((editedFields) =>
+        Array.from(new Set([...editedFields, ...changedFields])),
+      );
+
+      if (!__skipsChangeValidation) {
+        validateChangedFields(changedFields, currentValues);
+      }
+    }
+
+    if (__fieldConditions.length > 0) {
+      applyFieldConditions(currentValues);
+    }
+
+    if (config.liveValidation) {
+      runLiveValidation(currentValues);
+    }
+
+    if (config.persist) {
+      persistDraft();
+    }
+  };
+
+  const visibleErrors = derived(
+    [__errors, __touched, __editedFields, __revealedFields, __submitCount],
+    ([errors, touched, editedFields, revealedFields, submitCount]) => {
+      const policy = config.errorDisplay ?? 'always';
+
+      if (policy === 'always' || submitCount > 0) {
+        return errors;
+      }
+
+      const touchedFields = getFlaggedPaths(touched);
+
+      return filterErrors(errors, (path) => {
+        if (isPathFlagged(revealedFields, path)) {
+          return true;
+        }
+
+        switch (policy) {
+          case 'onTouched':
+            return isPathFlagged(touchedFields, path);
+          case 'onBlurAfterEdit':
+            return (
+              isPathFlagged(touchedFields, path) &&
+              isPathFlagged(editedFields, path)
+            );
+          default:
+            return false;
+        }
+      }) as FormErrors<T, E>;
+    },
+  );
+
+  const dirtyFields = derived(
+    [__initialValues, values],
+    ([initialValues, currentValues]) =>
+      getDirtyFields(initialValues, currentValues) as FieldsMap<T, boolean>,
+  );
+
+  const isDirty = derived(dirtyFields, (dirtyFields) =>
+    Object.values(flatten(dirtyFields)).some(Boolean),
+  );
+
+  /**
+   * Saves the form state as a draft, the draft is removed instead if the
+   * form values are the initial ones.
+   */
+  const persistDraft = throttle((): void => {
+    try {
+      if (get(isDirty)) {
+        saveDraft(config.persist, get(values), get(__touched));
+      } else {
+        clearDraft(config.persist);
+      }
+    } catch (error) {
+      if (config.debug) {
+        console.warn(error);
+      }
+    }
+  }, config.persist?.throttle ?? 500);
+
+  const discardDraft = (): void => {
+    if (config.persist) {
+      persistDraft.cancel();
+      clearDraft(config.persist);
+    }
   };
 
   const subscriptions: Subscriptions = {
     values: values.subscribe(handleValuesChange),
+    touched: config.persist?.touched
+      ? __touched.subscribe(() => persistDraft())
+      : undefined,
   };
 
+  const destroy = (): void => {
+    if (__isDestroyed) {
+      return;
+    }
+
+    cancelFieldValidations();
+    __liveValidationRun++;
+    persistDraft.flush();
+    subscriptions.values();
+    subscriptions.touched?.();
+    __fieldElements.clear();
+    __isDestroyed = true;
+  };
+
+  try {
+    onDestroy(destroy);
+  } catch {
+    // `newForm` was not called during component initialization
+  }
+
   return {
+    back,
+    canRedo: __history?.canRedo ?? readable(false),
+    canUndo: __history?.canUndo ?? readable(false),
+    clearDraft: discardDraft,
     clearErrors,
+    currentStep: __wizard?.currentStep ?? readable(0),
+    destroy,
     errors: derived(__errors, (errors) => errors),
+    fieldArray,
+    formError: derived(__formError, (formError) => formError),
+    getFieldConfig,
+    getFieldErrorId,
+    goTo,
     handleBlur,
     handleChange,
     handleFocus,
     handleInput,
     handleSubmit,
     initialValues: derived(__initialValues, (initialValues) => initialValues),
-    isDirty: derived(__isDirty, (isDirty) => isDirty),
+    dirtyFields,
+    isDirty,
+    isFieldActive: (field: FieldPath<T>) => isFieldActive(field),
+    isFieldDirty,
     isSubmitting: derived(__isSubmitting, (isSubmitting) => isSubmitting),
+    isValid: derived(
+      [__errors, __isLiveValid],
+      ([errors, isLiveValid]) =>
+        isLiveValid && !Object.values(flatten(errors)).some(Boolean),
+    ),
     isValidating: derived(__isValidating, (isValidating) => isValidating),
+    lastSubmitError: derived(
+      __lastSubmitError,
+      (lastSubmitError) => lastSubmitError,
+    ),
+    next,
+    redo,
+    registerField,
     reset,
+    setErrors,
     setFieldError,
     setFieldTouched,
     setFieldValue,
     setInitialValues,
+    steps: __wizard?.steps ?? [],
+    submit,
+    submitCount: derived(__submitCount, (submitCount) => submitCount),
+    submitState: derived(__submitState, (submitState) => submitState),
     subscriptions,
     touched: derived(__touched, (touched) => touched),
+    visibleErrors,
+    visited: derived(__visited, (visited) => visited),
+    undo,
+    validatingFields: derived(
+      __validatingFields,
+      (validatingFields) => validatingFields,
+    ),
     values,
     validateField,
+    validateForm,
     validateFieldSync,
   };
 };
@@ -0,0 +1,267 @@
+import { fromFormData } from './form-data';
+import { mergeDraft } from './persist';
+import { SubmitFailure } from './server-errors';
+import { isFileLike, isPlainObject } from './utils';
+import { resolveValidator } from './validators';
+
+import type { FormInstance } from '.';
+import type {
+  FieldError,
+  ValidationErrorsMap,
+  ValidatorConfig,
+} from './validators';
+
+/**
+ * Settings used to read and validate a form submitted to a SvelteKit
+ * action.
+ */
+export type FormActionConfig<T> = ValidatorConfig<T> & {
+  /**
+   * Form's initial values, used to coerce the `FormData` entries into the
+   * type of each field.
+   */
+  initialValues: T;
+};
+
+/**
+ * Result of reading and validating a form submitted to a SvelteKit action.
+ */
+export type FormActionResult<T> = {
+  /**
+   * `true` if the submitted values are valid.
+   */
+  valid: boolean;
+
+  /**
+   * Values read from the submitted `FormData`.
+   */
+  values: T;
+
+  /**
+   * Validation errors keyed by field path, empty if `valid` is `true`.
+   */
+  errors: ValidationErrorsMap;
+};
+
+/**
+ * Payload returned by a SvelteKit action when the submission fails, usually
+ * through `fail(400, actionFailure(result))`.
+ *
+ * Files are omitted given that they can't be serialized as `ActionData`.
+ */
+export type FormActionFailure<T> = {
+  values: Partial<T>;
+  errors: ValidationErrorsMap;
+};
+
+/**
+ * Result of a SvelteKit action as provided to `use:enhance` callbacks.
+ */
+export type EnhanceActionResult =
+  | {
+      type: 'success' | 'failure';
+      status: number;
+      data?: Record<string, unknown>;
+    }
+  | { type: 'redirect'; status: number; location: string }
+  | { type: 'error'; status?: number; error: unknown };
+
+/**
+ * Input provided by `use:enhance` once the action responds.
+ */
+export type EnhanceResultInput = {
+  result: EnhanceActionResult;
+  update(options?: { reset?: boolean; invalidateAll?: boolean }): Promise<void>;
+};
+
+/**
+ * Callback compatible with SvelteKit's `SubmitFunction` used by `use:enhance`.
+ */
+export type EnhanceSubmitFunction = (input: {
+  cancel(): void;
+}) => Promise<void | ((input: EnhanceResultInput) => Promise<void>)>;
+
+export type EnhanceFormOptions = {
+  /**
+   * If `true`, the form values are reset after a successful submission.
+   * Defaults to `true` as SvelteKit's `use:enhance` does.
+   */
+  reset?: boolean;
+
+  /**
+   * If `false`, page data is not invalidated after a successful submission.
+   * Defaults to `true`.
+   */
+  invalidateAll?: boolean;
+};
+
+/**
+ * Removes `File`, `FileList` and `Blob` values from `values`.
+ */
+const omitFiles = (values: unknown): unknown => {
+  if (Array.isArray(values)) {
+    return values.filter((item) => !isFileLike(item)).map(omitFiles);
+  }
+
+  if (isPlainObject(values)) {
+    return Object.fromEntries(
+      Object.keys(values)
+        .filter((key) => !isFileLike(values[key]))
+        .map((key) => [key, omitFiles(values[key])]),
+    );
+  }
+
+  return values;
+};
+
+const isFormActionFailure = <T>(data: unknown): data is FormActionFailure<T> =>
+  isPlainObject(data) && isPlainObject(data.errors);
+
+/**
+ * Reads the values from `FormData` submitted to a SvelteKit action and
+ * validates them with the same `validator` or `validationSchema` used by the
+ * form.
+ *
+ * ```ts
+ * export const actions = {
+ *   default: async ({ request }) => {
+ *     const result = await validateFormData(await request.formData(), {
+ *       initialValues,
+ *       validationSchema,
+ *     });
+ *
+ *     if (!result.valid) {
+ *       return fail(400, actionFailure(result));
+ *     }
+ *   },
+ * };
+ * ```
+ */
+export const validateFormData = async <T extends object>(
+  formData: FormData,
+  config: FormActionConfig<T>,
+): Promise<FormActionResult<T>> => {
+  const values = fromFormData(formData, config.initialValues);
+  const validator = resolveValidator(config);
+  const errors = validator ? await validator.validate(values) : {};
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    values,
+    errors,
+  };
+};
+
+/**
+ * Builds the payload for SvelteKit's `fail()` out of the submitted values and
+ * the errors to report, keyed by field path.
+ */
+export const actionFailure = <T>({
+  values,
+  errors,
+}: Pick<FormActionResult<T>, 'values' | 'errors'>): FormActionFailure<T> => ({
+  values: omitFiles(values) as Partial<T>,
+  errors,
+});
+
+/**
+ * Applies the `ActionData` returned through `actionFailure` to the form,
+ * values are merged into the `values` store and errors are set with
+ * `setErrors`.
+ *
+ * Any other `ActionData` is ignored, so it's safe to call it with the page's
+ * `form` prop to restore the state of a submission made without JavaScript.
+ *
+ * ```svelte
+ * <script lang="ts">
+ *   export let form;
+ *
+ *   const formInstance = newForm({ initialValues, validationSchema });
+ *
+ *   applyActionData(formInstance, form);
+ * </script>
+ * ```
+ */
+export const applyActionData = <T extends object>(
+  form: FormInstance<T, T, FieldError>,
+  data: unknown,
+): void => {
+  if (!isFormActionFailure<T>(data)) {
+    return;
+  }
+
+  form.values.update((currentValues) => mergeDraft(currentValues, data.values));
+  form.setErrors(data.errors);
+};
+
+/**
+ * Creates a callback for SvelteKit's `use:enhance` which submits the form
+ * through `submit`, so the form is validated before sending the request and
+ * `isSubmitting`, `submitState` and friends track the request.
+ *
+ * Requests are cancelled if the form values are not valid, and failures
+ * returned through `actionFailure` are applied to the form, which ends the
+ * submission in the `failed` state keeping any persisted draft.
+ *
+ * ```svelte
+ * <form method="POST" use:enhance={enhanceForm(form)}>
+ * ```
+ *
+ * The form keeps working without JavaScript given that the browser submits
+ * it natively to the same action.
+ */
+export const enhanceForm = <T extends object>(
+  form: FormInstance<T, T, FieldError>,
+  options: EnhanceFormOptions = {},
+): EnhanceSubmitFunction => {
+  return async ({ cancel }) => {
+    let proceed: () => void;
+    let respond: (input: EnhanceResultInput) => void;
+    const validated = new Promise<boolean>((resolve) => {
+      proceed = () => resolve(true);
+    });
+    const response = new Promise<EnhanceResultInput>((resolve) => {
+      respond = resolve;
+    });
+
+    const submission = form.submit(async () => {
+      proceed();
+
+      const { result, update } = await response;
+
+      if (result.type === 'failure') {
+        applyActionData(form, result.data);
+      }
+
+      await update({ reset: false, invalidateAll: options.invalidateAll });
+
+      if (result.type === 'success' && options.reset !== false) {
+        form.reset();
+      }
+
+      if (result.type === 'error') {
+        throw result.error;
+      }
+
+      if (result.type === 'failure') {
+        throw new SubmitFailure();
+      }
+    });
+
+    const settled = submission.then(
+      () => false,
+      () => false,
+    );
+
+    if (!(await Promise.race([validated, settled]))) {
+      cancel();
+      await submission;
+      return;
+    }
+
+    return async (input) => {
+      respond(input);
+      await submission;
+    };
+  };
+};
@@ -0,0 +1,192 @@
+import { getIn, isFileLike, isPlainObject, setIn } from './utils';
+
+/**
+ * Storage backend used to persist form drafts.
+ *
+ * Both `localStorage` and `sessionStorage` can be used as is, any object
+ * implementing these methods can be used as a custom backend.
+ */
+export type DraftStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+export type PersistConfig = {
+  /**
+   * Key used to store the draft.
+   */
+  key: string;
+
+  /**
+   * Storage backend used to store the draft, defaults to `localStorage` if
+   * available.
+   */
+  storage?: DraftStorage;
+
+  /**
+   * Version of the draft. Stored drafts with a different version are
+   * discarded instead of being restored.
+   *
+   * Bump it whenever the shape of the form values changes.
+   */
+  version?: number | string;
+
+  /**
+   * Paths of the fields excluded from the draft (e.g. passwords).
+   *
+   * `File`, `FileList` and `Blob` values are always excluded.
+   */
+  exclude?: string[];
+
+  /**
+   * If `true`, the `touched` state is persisted along with the values.
+   */
+  touched?: boolean;
+
+  /**
+   * Milliseconds to wait between draft saves. Defaults to `500`.
+   */
+  throttle?: number;
+};
+
+/**
+ * Form state stored as a draft.
+ */
+export type Draft<T> = {
+  version: number | string | null;
+  values: Partial<T>;
+  touched?: unknown;
+};
+
+/**
+ * Retrieves the storage backend for the provided `PersistConfig`, or
+ * `undefined` if no storage is available (e.g. during SSR).
+ */
+export const getDraftStorage = (
+  persist: PersistConfig,
+): DraftStorage | undefined => {
+  if (persist.storage) {
+    return persist.storage;
+  }
+
+  if (typeof localStorage !== 'undefined') {
+    return localStorage;
+  }
+
+  return undefined;
+};
+
+/**
+ * Removes the excluded fields from `values`.
+ */
+const omitPaths = <T>(values: T, paths: string[] = []): T =>
+  paths.reduce(
+    (acc, path) =>
+      typeof getIn(acc, path) === 'undefined'
+        ? acc
+        : setIn(acc, path, undefined),
+    values,
+  );
+
+/**
+ * Reads the draft from storage.
+ *
+ * Drafts which can't be parsed or whose version doesn't match the
+ * `PersistConfig` are removed from storage and `null` is returned instead.
+ */
+export const loadDraft = <T>(persist: PersistConfig): Draft<T> | null => {
+  const storage = getDraftStorage(persist);
+
+  if (!storage) {
+    return null;
+  }
+
+  try {
+    const serialized = storage.getItem(persist.key);
+
+    if (serialized === null) {
+      return null;
+    }
+
+    const draft = JSON.parse(serialized) as Draft<T>;
+
+    if (!isPlainObject(draft) || draft.version !== (persist.version ?? null)) {
+      storage.removeItem(persist.key);
+      return null;
+    }
+
+    return draft;
+  } catch {
+    storage.removeItem(persist.key);
+    return null;
+  }
+};
+
+/**
+ * Writes the draft to storage, excluded fields as well as `File`,
+ * `FileList` and `Blob` values are omitted.
+ */
+export const saveDraft = <T>(
+  persist: PersistConfig,
+  values: T,
+  touched?: unknown,
+): void => {
+  const storage = getDraftStorage(persist);
+
+  if (!storage) {
+    return;
+  }
+
+  const draft: Draft<T> = {
+    version: persist.version ?? null,
+    values: omitPaths(values, persist.exclude),
+  };
+
+  if (persist.touched) {
+    draft.touched = omitPaths(touched, persist.exclude);
+  }
+
+  storage.setItem(
+    persist.key,
+    JSON.stringify(draft, (_, value) =>
+      isFileLike(value) ? undefined : value,
+    ),
+  );
+};
+
+/**
+ * Removes the draft from storage.
+ */
+export const clearDraft = (persist: PersistConfig): void => {
+  getDraftStorage(persist)?.removeItem(persist.key);
+};
+
+/**
+ * Merges the values restored from a draft into `initial`.
+ *
+ * Plain objects are merged recursively, any other value from the draft
+ * replaces the initial one. ISO strings are turned back into `Date`
+ * instances when the initial value is a `Date`.
+ */
+export const mergeDraft = <T>(initial: T, draft: unknown): T => {
+  if (typeof draft === 'undefined') {
+    return initial;
+  }
+
+  if (isPlainObject(initial) && isPlainObject(draft)) {
+    return Object.keys(draft).reduce(
+      (acc, key) => ({
+        ...acc,
+        [key]: mergeDraft(initial[key], draft[key]),
+      }),
+      { ...initial },
+    ) as T;
+  }
+
+  if (initial instanceof Date && typeof draft === 'string') {
+    return new Date(draft) as T;
+  }
+
+  return draft as T;
+};
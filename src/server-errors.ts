@@ -0,0 +1,179 @@
+import { joinPath, toPath } from './utils';
+
+import type { ValidationErrorsMap } from './validators';
+
+/**
+ * An [RFC 7807][1] problem details object, validation errors are expected
+ * in the `invalid-params` extension member.
+ *
+ * [1]: https://www.rfc-editor.org/rfc/rfc7807
+ */
+export type ProblemDetails = {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  'invalid-params'?: Array<{
+    name?: string;
+    pointer?: string;
+    reason?: string;
+  }>;
+};
+
+/**
+ * A GraphQL error, the path of the field in question is expected in the
+ * `field` member of its `extensions`.
+ */
+export type GraphQLError = {
+  message: string;
+  extensions?: {
+    field?: string | Array<string | number>;
+    [key: string]: unknown;
+  };
+};
+
+/**
+ * Error thrown from `onSubmit` to mark the submission as failed once the
+ * server rejects the values (e.g. errors were applied with `setErrors`).
+ *
+ * The submission ends in the `failed` state and the error is available
+ * through `lastSubmitError`, but neither `onSubmitError` is executed nor is
+ * the error re-thrown by `handleSubmit` and `submit`.
+ */
+export class SubmitFailure extends Error {
+  constructor(message = 'The submission was rejected.') {
+    super(message);
+    this.name = 'SubmitFailure';
+  }
+}
+
+/**
+ * Turns a JSON pointer (e.g. `/items/0/qty` or `#/items/0/qty`) into a field
+ * path (e.g. `items[0].qty`).
+ */
+const fromJSONPointer = (pointer: string): string =>
+  joinPath(
+    pointer
+      .replace(/^#?\//, '')
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~')),
+  );
+
+/**
+ * Maps an [RFC 7807][1] problem details object into a
+ * `ValidationErrorsMap`.
+ *
+ * Each entry of `invalid-params` is mapped using its `name` (or its
+ * `pointer`) as path and its `reason` as message. The `detail` (or the
+ * `title`) is used as form-level error if there are no `invalid-params`.
+ *
+ * [1]: https://www.rfc-editor.org/rfc/rfc7807
+ */
+export const fromProblemDetails = (
+  problem: ProblemDetails,
+): ValidationErrorsMap => {
+  const invalidParams = problem?.['invalid-params'] ?? [];
+
+  if (invalidParams.length === 0) {
+    const message = problem?.detail ?? problem?.title;
+
+    return message ? { '': message } : {};
+  }
+
+  return invalidParams.reduce<ValidationErrorsMap>(
+    (acc, { name, pointer, reason }) => {
+      const path =
+        typeof name === 'string'
+          ? joinPath(toPath(name))
+          : fromJSONPointer(pointer ?? '');
+
+      if (path in acc) {
+        return acc;
+      }
+
+      return {
+        ...acc,
+        [path]: reason ?? problem.title ?? '',
+      };
+    },
+    {},
+  );
+};
+
+/**
+ * Maps GraphQL errors, either the `errors` array or the whole response, into
+ * a `ValidationErrorsMap`.
+ *
+ * Errors with a `field` in their `extensions` are mapped to the field in
+ * question, other errors are used as form-level error.
+ */
+export const fromGraphQLErrors = (
+  errors: GraphQLError[] | { errors?: GraphQLError[] },
+): ValidationErrorsMap => {
+  const graphQLErrors = Array.isArray(errors) ? errors : errors?.errors ?? [];
+
+  return graphQLErrors.reduce<ValidationErrorsMap>(
+    (acc, { message, extensions }) => {
+      const field = extensions?.field;
+      const path = Array.isArray(field)
+        ? joinPath(field)
+        : joinPath(toPath(field ?? ''));
+
+      if (path in acc) {
+        return acc;
+      }
+
+      return {
+        ...acc,
+        [path]: message,
+      };
+    },
+    {},
+  );
+};
+
+/**
+ * Maps field errors objects such as the ones returned by Rails or Django,
+ * e.g. `{ email: ['is invalid'], address: { city: ['is required'] } }`, into
+ * a `ValidationErrorsMap`.
+ *
+ * The first message is used for each field. Keys for non-field errors (e.g.
+ * `base` or `non_field_errors`) are kept as is, so they are used as
+ * form-level error.
+ */
+export const fromFieldErrors = (errors: object): ValidationErrorsMap => {
+  const validationErrors: ValidationErrorsMap = {};
+
+  const walk = (value: unknown, segments: Array<string | number>): void => {
+    const path = joinPath(segments);
+
+    if (typeof value === 'string') {
+      validationErrors[path] = value;
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      if (value.every((item) => typeof item === 'string')) {
+        if (value.length > 0) {
+          validationErrors[path] = value[0];
+        }
+
+        return;
+      }
+
+      value.forEach((item, index) => walk(item, [...segments, index]));
+      return;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) =>
+        walk(item, [...segments, key]),
+      );
+    }
+  };
+
+  walk(errors, []);
+
+  return validationErrors;
+};
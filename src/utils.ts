@@ -1,7 +1,45 @@
+/**
+ * Checks whether the provided value is a plain object (e.g. an object literal
+ * or an object created with `Object.create(null)`).
+ *
+ * Instances such as `Date`, `File` or `Blob` are not considered plain objects
+ * and are treated as leaf values.
+ *
+ * @param value - Value to check
+ * @returns `true` if `value` is a plain object
+ */
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Checks whether the provided value is a `File`, a `Blob` or a `FileList`.
+ *
+ * @param value - Value to check
+ * @returns `true` if `value` holds file contents
+ */
+export function isFileLike(value: unknown): value is Blob | FileList {
+  return (
+    (typeof Blob !== 'undefined' && value instanceof Blob) ||
+    (typeof FileList !== 'undefined' && value instanceof FileList)
+  );
+}
+
 /**
  * Clones an object with an optional default value to override every field's
  * value.
  *
+ * Nested plain objects and arrays are cloned recursively, so when a
+ * `defaultValue` is provided the resulting object mirrors the nested shape of
+ * `obj`, including the rows of its arrays.
  *
  * @param obj - Object to clone
  * @param defaultValue - Value to override every object's value
@@ -11,25 +49,465 @@ export function clone<T extends object, U>(
   obj: T,
   defaultValue: U = undefined,
 ): T | Record<keyof T, U> {
+  const cloneValue = (value: unknown): unknown => {
+    if (isPlainObject(value)) {
+      return clone(value, defaultValue);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(cloneValue);
+    }
+
+    return typeof defaultValue !== 'undefined' ? defaultValue : value;
+  };
+
   return Object.fromEntries(
-    Object.keys(obj).map((field) => {
-      if (typeof defaultValue !== 'undefined') {
-        return [field, defaultValue];
-      }
+    Object.keys(obj).map((field) => [field, cloneValue(obj[field])]),
+  ) as T;
+}
 
-      if (Array.isArray(obj[field])) {
-        return [field, [...obj[field]]];
-      }
+/**
+ * Checks whether two values are deeply equal.
+ *
+ * Plain objects and arrays are compared recursively, `Date` instances are
+ * compared by time and any other value is compared using `Object.is`.
+ *
+ * @param a - Value to compare
+ * @param b - Value to compare
+ * @returns `true` if both values are deeply equal
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, index) => isEqual(item, b[index]))
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Splits a field path written in dot and/or bracket notation into its
+ * segments.
+ *
+ * ```ts
+ * toPath('address.city'); // ['address', 'city']
+ * toPath('items[2].qty'); // ['items', '2', 'qty']
+ * ```
+ *
+ * @param path - Field path
+ * @returns Path segments
+ */
+export function toPath(path: string | number | symbol): string[] {
+  if (typeof path !== 'string') {
+    return [String(path)];
+  }
+
+  return path
+    .replace(/\[\s*['"]?([^'"\]]*?)['"]?\s*\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Joins path segments into a path string using bracket notation for numeric
+ * segments, e.g. `['items', 2, 'qty']` becomes `items[2].qty`.
+ *
+ * @param segments - Path segments
+ * @returns Field path
+ */
+export function joinPath(segments: ReadonlyArray<string | number>): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number' || /^\d+$/.test(segment)) {
+      return `${path}[${segment}]`;
+    }
+
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Flattens the leaf values of `obj` into an object keyed by their field
+ * path, e.g. `{ address: { city: 'Caracas' } }` becomes
+ * `{ 'address.city': 'Caracas' }`.
+ *
+ * Plain objects and arrays are walked recursively, any other value is
+ * considered a leaf value.
+ *
+ * @param obj - Object to flatten
+ * @returns Leaf values keyed by field path
+ */
+export function flatten(obj: unknown): Record<string, unknown> {
+  const leaves: Record<string, unknown> = {};
+
+  const walk = (value: unknown, segments: Array<string | number>): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, [...segments, index]));
+      return;
+    }
+
+    if (isPlainObject(value)) {
+      Object.keys(value).forEach((key) => walk(value[key], [...segments, key]));
+      return;
+    }
+
+    if (segments.length > 0) {
+      leaves[joinPath(segments)] = value;
+    }
+  };
+
+  walk(obj, []);
+
+  return leaves;
+}
+
+/**
+ * Retrieves the value at `path` from `obj`.
+ *
+ * @param obj - Object to read from
+ * @param path - Field path in dot and/or bracket notation
+ * @returns The value at `path` or `undefined` if the path is not reachable
+ */
+export function getIn<V = unknown>(
+  obj: unknown,
+  path: string | number | symbol,
+): V {
+  let current = obj;
+
+  for (const segment of toPath(path)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+
+    current = current[segment];
+  }
+
+  return current as V;
+}
+
+/**
+ * Checks whether `path` is reachable in `obj`, even if the value at `path`
+ * is `undefined`.
+ *
+ * @param obj - Object to check
+ * @param path - Field path in dot and/or bracket notation
+ * @returns `true` if every segment of `path` exists in `obj`
+ */
+export function hasIn(obj: unknown, path: string | number | symbol): boolean {
+  const segments = toPath(path);
+  let current = obj;
+
+  if (segments.length === 0) {
+    return false;
+  }
+
+  for (const segment of segments) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !(segment in current)
+    ) {
+      return false;
+    }
+
+    current = current[segment];
+  }
+
+  return true;
+}
+
+/**
+ * Sets `value` at `path` on a copy of `obj` without mutating it.
+ *
+ * Objects and arrays along the path are shallow copied, missing containers
+ * are created on the fly: arrays when the next segment is a numeric index and
+ * plain objects otherwise.
+ *
+ * @param obj - Object to update
+ * @param path - Field path in dot and/or bracket notation
+ * @param value - Value to set
+ * @returns A copy of `obj` with `value` set at `path`
+ */
+export function setIn<T>(
+  obj: T,
+  path: string | number | symbol,
+  value: unknown,
+): T {
+  const segments = toPath(path);
+
+  const update = (current: unknown, index: number): unknown => {
+    if (index === segments.length) {
+      return value;
+    }
+
+    const segment = segments[index];
+    let copy: unknown;
 
-      if (
-        typeof obj[field] === 'object' &&
-        !Array.isArray(obj[field]) &&
-        obj[field] !== null
-      ) {
-        return [field, { ...obj[field] }];
+    if (Array.isArray(current)) {
+      copy = [...current];
+    } else if (current !== null && typeof current === 'object') {
+      copy = { ...current };
+    } else {
+      copy = /^\d+$/.test(segment) ? [] : {};
+    }
+
+    copy[segment] = update(copy[segment], index + 1);
+
+    return copy;
+  };
+
+  return update(obj, 0) as T;
+}
+
+/**
+ * Removes the value at `path` from a copy of `obj` without mutating it.
+ *
+ * The key is deleted from plain objects, array items are set to `undefined`
+ * instead so the following items are not shifted.
+ *
+ * @param obj - Object to update
+ * @param path - Field path in dot and/or bracket notation
+ * @returns A copy of `obj` without the value at `path`
+ */
+export function unsetIn<T>(obj: T, path: string | number | symbol): T {
+  if (!hasIn(obj, path)) {
+    return obj;
+  }
+
+  const segments = toPath(path);
+  const key = segments[segments.length - 1];
+  const parentPath = joinPath(segments.slice(0, -1));
+  const parent = parentPath ? getIn(obj, parentPath) : obj;
+
+  if (Array.isArray(parent)) {
+    return setIn(obj, path, undefined);
+  }
+
+  const nextParent = Object.fromEntries(
+    Object.entries(parent).filter(([parentKey]) => parentKey !== key),
+  );
+
+  return parentPath ? setIn(obj, parentPath, nextParent) : (nextParent as T);
+}
+
+/**
+ * Checks whether `path` points to one of `paths` or to a field nested in one
+ * of them, e.g. `address.city` is within `address`.
+ *
+ * @param path - Normalized field path
+ * @param paths - Normalized field paths
+ * @returns `true` if `path` is within any of `paths`
+ */
+export function isWithinPaths(path: string, paths: string[]): boolean {
+  return paths.some(
+    (parentPath) =>
+      path === parentPath ||
+      path.startsWith(`${parentPath}.`) ||
+      path.startsWith(`${parentPath}[`),
+  );
+}
+
+/**
+ * Lists the paths of the fields whose value differs between `previous` and
+ * `current`.
+ *
+ * Plain objects, and arrays holding plain objects (e.g. field arrays), are
+ * compared recursively. Any other array is compared as a whole, given that
+ * arrays of primitive values (e.g. a checkbox group) represent a single
+ * field.
+ *
+ * ```ts
+ * getChangedPaths({ a: 1, b: { c: 2 } }, { a: 1, b: { c: 3 } }); // ['b.c']
+ * ```
+ *
+ * @param previous - Previous values
+ * @param current - Current values
+ * @returns Paths of the changed fields
+ */
+export function getChangedPaths(previous: unknown, current: unknown): string[] {
+  const paths: string[] = [];
+
+  const walk = (
+    a: unknown,
+    b: unknown,
+    segments: Array<string | number>,
+  ): void => {
+    if (isEqual(a, b)) {
+      return;
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+      new Set([...Object.keys(a), ...Object.keys(b)]).forEach((key) =>
+        walk(a[key], b[key], [...segments, key]),
+      );
+      return;
+    }
+
+    if (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      [...a, ...b].some((item) => isPlainObject(item))
+    ) {
+      for (let index = 0; index < Math.max(a.length, b.length); index++) {
+        walk(a[index], b[index], [...segments, index]);
       }
+      return;
+    }
 
-      return [field, obj[field]];
-    }),
-  ) as T;
+    if (segments.length > 0) {
+      paths.push(joinPath(segments));
+    }
+  };
+
+  walk(previous, current, []);
+
+  return paths;
+}
+
+/**
+ * Returns a copy of `arr` with `value` inserted at `index`.
+ *
+ * @param arr - Source array
+ * @param index - Index to insert the value at
+ * @param value - Value to insert
+ * @returns A copy of `arr` including `value`
+ */
+export function insertAt<T>(arr: T[], index: number, value: T): T[] {
+  const copy = [...arr];
+
+  copy.splice(index, 0, value);
+
+  return copy;
+}
+
+/**
+ * Returns a copy of `arr` without the item at `index`.
+ *
+ * @param arr - Source array
+ * @param index - Index of the item to remove
+ * @returns A copy of `arr` without the item at `index`
+ */
+export function removeAt<T>(arr: T[], index: number): T[] {
+  const copy = [...arr];
+
+  copy.splice(index, 1);
+
+  return copy;
+}
+
+/**
+ * Returns a copy of `arr` with the item at `from` moved to `to`, shifting
+ * the items in between.
+ *
+ * @param arr - Source array
+ * @param from - Current index of the item
+ * @param to - Target index of the item
+ * @returns A copy of `arr` with the item moved
+ */
+export function moveItem<T>(arr: T[], from: number, to: number): T[] {
+  const copy = [...arr];
+  const [item] = copy.splice(from, 1);
+
+  copy.splice(to, 0, item);
+
+  return copy;
+}
+
+/**
+ * Returns a copy of `arr` with the items at `indexA` and `indexB` swapped.
+ *
+ * @param arr - Source array
+ * @param indexA - Index of the first item
+ * @param indexB - Index of the second item
+ * @returns A copy of `arr` with the items swapped
+ */
+export function swapItems<T>(arr: T[], indexA: number, indexB: number): T[] {
+  const copy = [...arr];
+
+  [copy[indexA], copy[indexB]] = [copy[indexB], copy[indexA]];
+
+  return copy;
+}
+
+/**
+ * A throttled function which can be cancelled or flushed.
+ */
+export type Throttled<A extends unknown[]> = {
+  (...args: A): void;
+
+  /**
+   * Cancels the pending invocation, if any.
+   */
+  cancel(): void;
+
+  /**
+   * Executes the pending invocation immediately, if any.
+   */
+  flush(): void;
+};
+
+/**
+ * Creates a function which invokes `fn` at most once every `wait`
+ * milliseconds, using the arguments from the latest call.
+ *
+ * The invocation happens at the end of the `wait` window, so the latest
+ * arguments are never lost.
+ *
+ * @param fn - Function to throttle
+ * @param wait - Milliseconds to wait between invocations
+ * @returns Throttled function
+ */
+export function throttle<A extends unknown[]>(
+  fn: (...args: A) => void,
+  wait: number,
+): Throttled<A> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingArgs: A | undefined;
+
+  const flush = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    if (pendingArgs) {
+      const args = pendingArgs;
+
+      pendingArgs = undefined;
+      fn(...args);
+    }
+  };
+
+  const throttled = (...args: A): void => {
+    pendingArgs = args;
+
+    if (!timer) {
+      timer = setTimeout(flush, wait);
+    }
+  };
+
+  throttled.cancel = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    pendingArgs = undefined;
+  };
+
+  throttled.flush = flush;
+
+  return throttled;
 }
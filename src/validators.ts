@@ -0,0 +1,592 @@
+import { joinPath, toPath } from './utils';
+
+/**
+ * Error for a single field, a list of messages if `multiple` errors are
+ * collected.
+ */
+export type FieldError = string | string[];
+
+/**
+ * Validation errors keyed by field path, e.g.
+ * `{ 'address.city': 'You must provide the city.' }`.
+ */
+export type ValidationErrorsMap = Record<string, FieldError>;
+
+/**
+ * Details of a failed validation provided to `formatError`.
+ */
+export type ValidationIssue = {
+  /**
+   * Path of the field, e.g. `address.city`.
+   */
+  path: string;
+
+  /**
+   * Message reported by the validation library.
+   */
+  message: string;
+
+  /**
+   * Type of the failed validation as reported by the validation library,
+   * e.g. Yup's test name (`required`, `min`) or Zod's issue code.
+   */
+  type?: string;
+
+  /**
+   * Parameters of the failed validation, e.g. `{ min: 8 }`.
+   */
+  params?: Record<string, unknown>;
+};
+
+/**
+ * Builds the message for a failed validation, e.g. to translate messages at
+ * display time instead of baking them into schemas.
+ */
+export type FormatError = (issue: ValidationIssue) => string;
+
+/**
+ * Options provided to each `Validator` call.
+ */
+export type ValidatorOptions = {
+  formatError?: FormatError;
+
+  /**
+   * If `true`, every message reported for a field is kept as a `string[]`
+   * instead of a single message.
+   */
+  multiple?: boolean;
+};
+
+/**
+ * Result of validating the whole form along with the values transformed by
+ * the validation library (e.g. Yup's cast output or Zod's parsed data).
+ */
+export type ValidationResult = {
+  errors: ValidationErrorsMap;
+
+  /**
+   * Transformed values, only available if the values are valid.
+   */
+  output?: unknown;
+};
+
+/**
+ * Adapter used by the form to validate its values.
+ *
+ * Adapters turn errors from the underlying validation library into a
+ * `ValidationErrorsMap`, the form doesn't depend on any validation library
+ * on its own.
+ */
+export type Validator<T> = {
+  /**
+   * Validates the whole form asynchronously.
+   *
+   * Resolves to an empty object if the values are valid.
+   */
+  validate(values: T, options?: ValidatorOptions): Promise<ValidationErrorsMap>;
+
+  /**
+   * Validates the whole form synchronously.
+   *
+   * Returns an empty object if the values are valid.
+   */
+  validateSync(values: T, options?: ValidatorOptions): ValidationErrorsMap;
+
+  /**
+   * Validates the whole form asynchronously, resolving to the errors along
+   * with the values transformed by the validation library.
+   *
+   * Optional, adapters without transformations can omit it.
+   */
+  validateWithOutput?(
+    values: T,
+    options?: ValidatorOptions,
+  ): Promise<ValidationResult>;
+
+  /**
+   * Transforms the values as the validation library would without
+   * validating them, `undefined` if the values can't be transformed.
+   *
+   * Optional, adapters without transformations can omit it.
+   */
+  cast?(values: T): unknown;
+
+  /**
+   * Validates the field at `path` asynchronously.
+   *
+   * Resolves to the error for the field or `undefined` if the field is
+   * valid.
+   */
+  validateAt(
+    path: string,
+    values: T,
+    options?: ValidatorOptions,
+  ): Promise<FieldError | undefined>;
+
+  /**
+   * Validates the field at `path` synchronously.
+   *
+   * Returns the error for the field or `undefined` if the field is valid.
+   */
+  validateSyncAt(
+    path: string,
+    values: T,
+    options?: ValidatorOptions,
+  ): FieldError | undefined;
+};
+
+/**
+ * Turns validation issues into a `ValidationErrorsMap`.
+ *
+ * Messages are built through `formatError` if provided. Every message is kept
+ * if `multiple` is set, otherwise either the first or the last message
+ * reported for each path is kept.
+ */
+const fromIssues = (
+  issues: ValidationIssue[],
+  options: ValidatorOptions = {},
+  keep: 'first' | 'last' = 'first',
+): ValidationErrorsMap =>
+  issues.reduce<ValidationErrorsMap>((acc, issue) => {
+    const message = options.formatError?.(issue) ?? issue.message;
+    const current = acc[issue.path];
+
+    if (options.multiple) {
+      return {
+        ...acc,
+        [issue.path]: [...(Array.isArray(current) ? current : []), message],
+      };
+    }
+
+    if (keep === 'first' && issue.path in acc) {
+      return acc;
+    }
+
+    return {
+      ...acc,
+      [issue.path]: message,
+    };
+  }, {});
+
+/**
+ * Retrieves the error for the field at `path` from a `ValidationErrorsMap`,
+ * including errors reported on nested fields.
+ */
+const pickFieldError = (
+  errors: ValidationErrorsMap,
+  path: string,
+): FieldError | undefined => {
+  const normalizedPath = joinPath(toPath(path));
+
+  if (normalizedPath in errors) {
+    return errors[normalizedPath];
+  }
+
+  const nestedPath = Object.keys(errors).find(
+    (errorPath) =>
+      errorPath.startsWith(`${normalizedPath}.`) ||
+      errorPath.startsWith(`${normalizedPath}[`),
+  );
+
+  return nestedPath ? errors[nestedPath] : undefined;
+};
+
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown>)?.then === 'function';
+
+/**
+ * Options accepted by the validation methods of a [Yup][1] schema.
+ *
+ * [1]: https://github.com/jquense/yup
+ */
+export type YupValidateOptions = {
+  abortEarly?: boolean;
+  context?: object;
+  recursive?: boolean;
+  strict?: boolean;
+  stripUnknown?: boolean;
+};
+
+/**
+ * The methods of a [Yup][1] schema used by `yupValidator`, `O` is the type
+ * of the values cast by the schema.
+ *
+ * Declared structurally so Yup is not required to be installed for
+ * type-checking.
+ *
+ * [1]: https://github.com/jquense/yup
+ */
+export type YupSchema<O = unknown> = {
+  validate(value: unknown, options?: YupValidateOptions): Promise<O>;
+  validateSync(value: unknown, options?: YupValidateOptions): O;
+  validateAt(
+    path: string,
+    value: unknown,
+    options?: YupValidateOptions,
+  ): Promise<unknown>;
+  validateSyncAt(
+    path: string,
+    value: unknown,
+    options?: YupValidateOptions,
+  ): unknown;
+  cast(
+    value: unknown,
+    options?: {
+      assert?: boolean | 'ignore-optionality';
+      context?: object;
+      stripUnknown?: boolean;
+    },
+  ): unknown;
+};
+
+/**
+ * The details of a Yup's `ValidationError` used to report issues.
+ */
+type YupValidationError = {
+  name: string;
+  message: string;
+  path?: string;
+  type?: string;
+  params?: Record<string, unknown>;
+  errors: string[];
+  inner?: YupValidationError[];
+};
+
+/**
+ * Checks whether the provided value is a [Yup][1] schema.
+ *
+ * Duck typing is used instead of Yup's `isSchema` so Yup is not required to
+ * be installed.
+ *
+ * [1]: https://github.com/jquense/yup
+ */
+export const isYupSchema = (value: unknown): value is YupSchema =>
+  typeof (value as YupSchema)?.validate === 'function' &&
+  typeof (value as YupSchema)?.validateAt === 'function' &&
+  typeof (value as YupSchema)?.validateSyncAt === 'function';
+
+const isYupValidationError = (error: unknown): error is YupValidationError =>
+  (error as YupValidationError)?.name === 'ValidationError' &&
+  Array.isArray((error as YupValidationError)?.errors);
+
+/**
+ * Turns a Yup's `ValidationError` into validation issues.
+ */
+const toYupIssues = (error: YupValidationError): ValidationIssue[] =>
+  (error.inner?.length ? error.inner : [error]).map(
+    ({ message, path, type, params }) => ({
+      path: path ?? '',
+      message,
+      type,
+      params,
+    }),
+  );
+
+/**
+ * Retrieves the error for the field at `path`, errors reported by Yup's
+ * `validateAt` always belong to the field in question so the first error is
+ * used as fallback.
+ */
+const pickYupFieldError = (
+  errors: ValidationErrorsMap,
+  path: string,
+): FieldError | undefined =>
+  pickFieldError(errors, path) ?? Object.values(errors)[0];
+
+/**
+ * Creates a `Validator` from a [Yup][1] schema.
+ *
+ * The provided `options` are used when validating the whole form, errors are
+ * reported for every field by default (`{ abortEarly: false }`).
+ *
+ * [1]: https://github.com/jquense/yup
+ */
+export const yupValidator = <T>(
+  schema: YupSchema,
+  options: YupValidateOptions = { abortEarly: false },
+): Validator<T> => {
+  const handleError = (
+    error: unknown,
+    validatorOptions: ValidatorOptions = {},
+  ): ValidationErrorsMap => {
+    if (isYupValidationError(error)) {
+      return fromIssues(toYupIssues(error), validatorOptions, 'last');
+    }
+
+    throw error;
+  };
+
+  /**
+   * Every error for the field is required to collect `multiple` errors.
+   */
+  const getFieldOptions = (
+    validatorOptions: ValidatorOptions = {},
+  ): YupValidateOptions =>
+    validatorOptions.multiple ? { abortEarly: false } : undefined;
+
+  return {
+    validate: async (values, validatorOptions) => {
+      try {
+        await schema.validate(values, options);
+        return {};
+      } catch (error) {
+        return handleError(error, validatorOptions);
+      }
+    },
+    validateSync: (values, validatorOptions) => {
+      try {
+        schema.validateSync(values, options);
+        return {};
+      } catch (error) {
+        return handleError(error, validatorOptions);
+      }
+    },
+    validateWithOutput: async (values, validatorOptions) => {
+      try {
+        return { errors: {}, output: await schema.validate(values, options) };
+      } catch (error) {
+        return { errors: handleError(error, validatorOptions) };
+      }
+    },
+    cast: (values) => {
+      try {
+        return schema.cast(values, {
+          context: options.context,
+          stripUnknown: options.stripUnknown,
+          assert: 'ignore-optionality',
+        });
+      } catch {
+        return undefined;
+      }
+    },
+    validateAt: async (path, values, validatorOptions) => {
+      try {
+        await schema.validateAt(
+          path,
+          values,
+          getFieldOptions(validatorOptions),
+        );
+        return undefined;
+      } catch (error) {
+        return pickYupFieldError(handleError(error, validatorOptions), path);
+      }
+    },
+    validateSyncAt: (path, values, validatorOptions) => {
+      try {
+        schema.validateSyncAt(path, values, getFieldOptions(validatorOptions));
+        return undefined;
+      } catch (error) {
+        return pickYupFieldError(handleError(error, validatorOptions), path);
+      }
+    },
+  };
+};
+
+/**
+ * Validation settings shared by the form and the server-side helpers.
+ */
+export type ValidatorConfig<T> = {
+  validator?: Validator<T>;
+  validationSchema?: YupSchema;
+  validationOptions?: YupValidateOptions;
+  formatError?: FormatError;
+  multipleErrors?: boolean;
+};
+
+/**
+ * Resolves the `Validator` for the provided settings, a `validator` takes
+ * precedence over a Yup `validationSchema`. The `formatError` and
+ * `multipleErrors` settings are provided to every call.
+ *
+ * Returns `undefined` if neither is provided.
+ */
+export const resolveValidator = <T>(
+  config: ValidatorConfig<T>,
+): Validator<T> | undefined => {
+  const validator =
+    config.validator ??
+    (isYupSchema(config.validationSchema)
+      ? yupValidator<T>(config.validationSchema, config.validationOptions)
+      : undefined);
+
+  if (!validator || (!config.formatError && !config.multipleErrors)) {
+    return validator;
+  }
+
+  const options: ValidatorOptions = {
+    formatError: config.formatError,
+    multiple: config.multipleErrors,
+  };
+
+  return {
+    validate: (values) => validator.validate(values, options),
+    validateSync: (values) => validator.validateSync(values, options),
+    validateWithOutput:
+      validator.validateWithOutput &&
+      ((values) => validator.validateWithOutput(values, options)),
+    cast: validator.cast && ((values) => validator.cast(values)),
+    validateAt: (path, values) => validator.validateAt(path, values, options),
+    validateSyncAt: (path, values) =>
+      validator.validateSyncAt(path, values, options),
+  };
+};
+
+/**
+ * The details of a Zod issue used to report issues.
+ */
+type ZodIssue = {
+  code: string;
+  message: string;
+  path: Array<string | number>;
+};
+
+/**
+ * The methods of a [Zod][1] schema used by `zodValidator`, `O` is the type
+ * of the values parsed by the schema.
+ *
+ * Declared structurally so Zod is not required to be installed for
+ * type-checking.
+ *
+ * [1]: https://zod.dev
+ */
+export type ZodSchema<O = unknown> = {
+  safeParse(data: unknown): ZodSafeParseResult<O>;
+  safeParseAsync(data: unknown): Promise<ZodSafeParseResult<O>>;
+};
+
+/**
+ * Result of Zod's `safeParse` and `safeParseAsync`.
+ */
+type ZodSafeParseResult<O> =
+  | { success: true; data: O; error?: never }
+  | { success: false; data?: never; error: { issues: ZodIssue[] } };
+
+/**
+ * Turns [Zod][1] issues into validation issues, Zod's issue code is used as
+ * the type and the remaining issue details as params.
+ *
+ * [1]: https://zod.dev
+ */
+const toZodIssues = (issues: ZodIssue[]): ValidationIssue[] =>
+  issues.map(({ code, message, path, ...params }) => ({
+    path: joinPath(path),
+    message,
+    type: code,
+    params,
+  }));
+
+/**
+ * Creates a `Validator` from a [Zod][1] schema.
+ *
+ * Zod doesn't support validating a single field, so the whole form is
+ * validated and the errors for the field in question are picked.
+ *
+ * [1]: https://zod.dev
+ */
+export const zodValidator = <T>(schema: ZodSchema): Validator<T> => {
+  const validate = async (
+    values: T,
+    options?: ValidatorOptions,
+  ): Promise<ValidationErrorsMap> => {
+    const result = await schema.safeParseAsync(values);
+
+    return result.success
+      ? {}
+      : fromIssues(toZodIssues(result.error.issues), options);
+  };
+
+  const validateSync = (
+    values: T,
+    options?: ValidatorOptions,
+  ): ValidationErrorsMap => {
+    const result = schema.safeParse(values);
+
+    return result.success
+      ? {}
+      : fromIssues(toZodIssues(result.error.issues), options);
+  };
+
+  return {
+    validate,
+    validateSync,
+    validateWithOutput: async (values, options) => {
+      const result = await schema.safeParseAsync(values);
+
+      return result.success
+        ? { errors: {}, output: result.data }
+        : { errors: fromIssues(toZodIssues(result.error.issues), options) };
+    },
+    validateAt: async (path, values, options) =>
+      pickFieldError(await validate(values, options), path),
+    validateSyncAt: (path, values, options) =>
+      pickFieldError(validateSync(values, options), path),
+  };
+};
+
+/**
+ * A plain validation function which receives the form values and returns
+ * (or resolves to) the error messages keyed by field path.
+ *
+ * Entries with an empty message are ignored.
+ */
+export type ValidationFn<T> = (
+  values: T,
+) =>
+  | Record<string, FieldError | undefined>
+  | Promise<Record<string, FieldError | undefined>>;
+
+/**
+ * Creates a `Validator` from a plain validation function.
+ *
+ * ```ts
+ * functionValidator<{ name: string }>((values) => ({
+ *   name: values.name ? undefined : 'You must provide the name.',
+ * }));
+ * ```
+ *
+ * Synchronous validation (`validateSync` and `validateSyncAt`) throws if the
+ * validation function returns a `Promise`.
+ */
+export const functionValidator = <T>(fn: ValidationFn<T>): Validator<T> => {
+  const normalize = (
+    errors: Record<string, FieldError | undefined>,
+    options?: ValidatorOptions,
+  ): ValidationErrorsMap =>
+    fromIssues(
+      Object.entries(errors ?? {}).flatMap(([path, messages]) =>
+        (Array.isArray(messages) ? messages : [messages])
+          .filter(Boolean)
+          .map((message) => ({ path: joinPath(toPath(path)), message })),
+      ),
+      options,
+    );
+
+  const validate = async (
+    values: T,
+    options?: ValidatorOptions,
+  ): Promise<ValidationErrorsMap> => normalize(await fn(values), options);
+
+  const validateSync = (
+    values: T,
+    options?: ValidatorOptions,
+  ): ValidationErrorsMap => {
+    const errors = fn(values);
+
+    if (isThenable(errors)) {
+      throw new TypeError(
+        'Expected the validation function to return synchronously. Received a "Promise" instead.',
+      );
+    }
+
+    return normalize(errors, options);
+  };
+
+  return {
+    validate,
+    validateSync,
+    validateAt: async (path, values, options) =>
+      pickFieldError(await validate(values, options), path),
+    validateSyncAt: (path, values, options) =>
+      pickFieldError(validateSync(values, options), path),
+  };
+};
@@ -0,0 +1,214 @@
+import { derived, get, writable } from 'svelte/store';
+
+import { getIn, isEqual, isWithinPaths, joinPath, toPath } from './utils';
+import { resolveValidator } from './validators';
+
+import type { Readable } from 'svelte/store';
+import type {
+  ValidationErrorsMap,
+  Validator,
+  ValidatorConfig,
+} from './validators';
+
+export type WizardStepConfig<T> = ValidatorConfig<T> & {
+  /**
+   * Name of the step, e.g. to be used as the step's title.
+   */
+  name?: string;
+
+  /**
+   * Paths of the fields that belong to the step.
+   */
+  fields: string[];
+};
+
+export type WizardStep = {
+  name?: string;
+  fields: string[];
+
+  /**
+   * A readable store which holds a boolean `true` if the step's fields are
+   * valid.
+   */
+  isValid: Readable<boolean>;
+
+  /**
+   * A readable store which holds a boolean `true` if any of the step's
+   * fields is different from its initial value.
+   */
+  isDirty: Readable<boolean>;
+};
+
+export type Wizard = {
+  /**
+   * A readable store which holds the index of the current step.
+   */
+  currentStep: Readable<number>;
+
+  steps: WizardStep[];
+
+  /**
+   * Validates the current step and moves to the next one if valid.
+   */
+  next(): Promise<boolean>;
+
+  /**
+   * Moves to the previous step, no validation is performed.
+   */
+  back(): void;
+
+  /**
+   * Moves to `step`, validating every step from the current one up to
+   * `step`. Stops at the first invalid step.
+   */
+  goTo(step: number): Promise<boolean>;
+
+  /**
+   * Moves to the first step with errors from `paths`, if any.
+   */
+  showFirstInvalidStep(paths: string[]): void;
+};
+
+export type WizardDependencies<T> = {
+  values: Readable<T>;
+  initialValues: Readable<T>;
+
+  /**
+   * Form's validator, used for steps without their own validator.
+   */
+  validator?: Validator<T>;
+
+  /**
+   * Replaces the errors for `fields` with `errors`.
+   */
+  setStepErrors(fields: string[], errors: ValidationErrorsMap): void;
+
+  /**
+   * Wether to log errors thrown by the validators of `isValid`.
+   */
+  debug?: boolean;
+};
+
+/**
+ * Creates a multi-step wizard out of the form's fields.
+ */
+export const createWizard = <T>(
+  stepsConfig: WizardStepConfig<T>[],
+  dependencies: WizardDependencies<T>,
+): Wizard => {
+  const currentStep = writable(0);
+  const stepsFields = stepsConfig.map(({ fields }) =>
+    fields.map((field) => joinPath(toPath(field))),
+  );
+  const validators = stepsConfig.map(
+    (step) => resolveValidator(step) ?? dependencies.validator,
+  );
+
+  const validateStep = async (
+    step: number,
+    values: T,
+  ): Promise<ValidationErrorsMap> => {
+    if (!validators[step]) {
+      return {};
+    }
+
+    const errors = await validators[step].validate(values);
+
+    return Object.fromEntries(
+      Object.entries(errors).filter(([path]) =>
+        isWithinPaths(path, stepsFields[step]),
+      ),
+    );
+  };
+
+  const goTo = async (step: number): Promise<boolean> => {
+    if (!Number.isInteger(step) || step < 0 || step >= stepsConfig.length) {
+      throw new RangeError(
+        `Expected a step between 0 and ${
+          stepsConfig.length - 1
+        }. Received "${step}" instead.`,
+      );
+    }
+
+    for (let index = get(currentStep); index < step; index++) {
+      const errors = await validateStep(index, get(dependencies.values));
+
+      dependencies.setStepErrors(stepsFields[index], errors);
+
+      if (Object.keys(errors).length > 0) {
+        currentStep.set(index);
+        return false;
+      }
+    }
+
+    currentStep.set(step);
+    return true;
+  };
+
+  const next = async (): Promise<boolean> => {
+    const step = get(currentStep);
+
+    if (step >= stepsConfig.length - 1) {
+      return false;
+    }
+
+    return goTo(step + 1);
+  };
+
+  const back = (): void => {
+    currentStep.update((step) => Math.max(step - 1, 0));
+  };
+
+  const showFirstInvalidStep = (paths: string[]): void => {
+    const step = stepsFields.findIndex((fields) =>
+      paths.some((path) => isWithinPaths(path, fields)),
+    );
+
+    if (step !== -1) {
+      currentStep.set(step);
+    }
+  };
+
+  return {
+    currentStep: derived(currentStep, (step) => step),
+    steps: stepsConfig.map(({ name }, index) => ({
+      name,
+      fields: stepsFields[index],
+      isValid: derived(
+        dependencies.values,
+        (values, set) => {
+          let isStale = false;
+
+          validateStep(index, values)
+            .then((errors) => {
+              if (!isStale) {
+                set(Object.keys(errors).length === 0);
+              }
+            })
+            .catch((error) => {
+              if (dependencies.debug) {
+                console.error(error);
+              }
+            });
+
+          return () => {
+            isStale = true;
+          };
+        },
+        false,
+      ),
+      isDirty: derived(
+        [dependencies.initialValues, dependencies.values],
+        ([initialValues, values]) =>
+          stepsFields[index].some(
+            (field) =>
+              !isEqual(getIn(initialValues, field), getIn(values, field)),
+          ),
+      ),
+    })),
+    next,
+    back,
+    goTo,
+    showFirstInvalidStep,
+  };
+};
@@ -0,0 +1,453 @@
+import { get } from "svelte/store";
+import { describe, expect, it, vi } from "vitest";
+
+import { field, functionValidator, newForm } from "../src";
+
+const createElement = <K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  attributes: Record<string, string> = {}
+): HTMLElementTagNameMap[K] => {
+  const element = document.createElement(tagName);
+
+  Object.entries(attributes).forEach(([name, value]) =>
+    element.setAttribute(name, value)
+  );
+
+  return element;
+};
+
+const createSelect = (
+  name: string,
+  options: string[],
+  multiple = false
+): HTMLSelectElement => {
+  const select = createElement("select", { name });
+
+  select.multiple = multiple;
+  options.forEach((value) => {
+    const option = createElement("option", { value });
+
+    option.textContent = value;
+    select.appendChild(option);
+  });
+
+  return select;
+};
+
+describe("Action: field", () => {
+  it("Throws if the element is not a form field", () => {
+    const form = newForm({ initialValues: {}, onSubmit: vi.fn() });
+
+    expect(() => field(createElement("div"), form)).toThrowError(
+      "Expected an `<input />`, `<select />` or `<textarea />` element."
+    );
+  });
+
+  it("Binds text inputs and textareas", () => {
+    const form = newForm({
+      initialValues: { name: "James", bio: "Agent" },
+      onSubmit: vi.fn(),
+    });
+    const input = createElement("input", { name: "name", type: "text" });
+    const textarea = createElement("textarea", { name: "bio" });
+
+    field(input, form);
+    field(textarea, form);
+
+    expect(input.value).toStrictEqual("James");
+    expect(textarea.value).toStrictEqual("Agent");
+
+    textarea.value = "Secret Agent";
+    textarea.dispatchEvent(new Event("input"));
+
+    expect(get(form.values).bio).toStrictEqual("Secret Agent");
+
+    form.setFieldValue("name", "Bond");
+
+    expect(input.value).toStrictEqual("Bond");
+  });
+
+  it("Binds single and multiple selects", () => {
+    const form = newForm({
+      initialValues: { color: "green", sizes: ["s"] },
+      onSubmit: vi.fn(),
+    });
+    const color = createSelect("color", ["red", "green", "blue"]);
+    const sizes = createSelect("sizes", ["s", "m", "l"], true);
+
+    field(color, form);
+    field(sizes, form);
+
+    expect(color.value).toStrictEqual("green");
+    expect(Array.from(sizes.selectedOptions, ({ value }) => value)).toEqual([
+      "s",
+    ]);
+
+    color.value = "blue";
+    color.dispatchEvent(new Event("change"));
+    sizes.options[2].selected = true;
+    sizes.dispatchEvent(new Event("change"));
+
+    expect(get(form.values).color).toStrictEqual("blue");
+    expect(get(form.values).sizes).toEqual(["s", "l"]);
+  });
+
+  it("Binds single boolean checkboxes", () => {
+    const form = newForm({
+      initialValues: { terms: true },
+      onSubmit: vi.fn(),
+    });
+    const checkbox = createElement("input", { name: "terms", type: "checkbox" });
+
+    field(checkbox, form);
+
+    expect(checkbox.checked).toStrictEqual(true);
+
+    checkbox.checked = false;
+    checkbox.dispatchEvent(new Event("change"));
+    checkbox.dispatchEvent(new Event("input"));
+
+    expect(get(form.values).terms).toStrictEqual(false);
+  });
+
+  it("Binds checkbox groups to arrays", () => {
+    const form = newForm({
+      initialValues: { toppings: ["cheese"] },
+      onSubmit: vi.fn(),
+    });
+    const [cheese, ham] = ["cheese", "ham"].map((value) => {
+      const checkbox = createElement("input", {
+        name: "toppings",
+        type: "checkbox",
+        value,
+      });
+
+      field(checkbox, form);
+
+      return checkbox;
+    });
+
+    expect(cheese.checked).toStrictEqual(true);
+    expect(ham.checked).toStrictEqual(false);
+
+    ham.checked = true;
+    ham.dispatchEvent(new Event("change"));
+    ham.dispatchEvent(new Event("input"));
+
+    expect(get(form.values).toppings).toEqual(["cheese", "ham"]);
+
+    cheese.checked = false;
+    cheese.dispatchEvent(new Event("change"));
+
+    expect(get(form.values).toppings).toEqual(["ham"]);
+  });
+
+  it("Binds radio groups", () => {
+    const form = newForm({
+      initialValues: { plan: "free" },
+      onSubmit: vi.fn(),
+    });
+    const [free, pro] = ["free", "pro"].map((value) => {
+      const radio = createElement("input", { name: "plan", type: "radio", value });
+
+      field(radio, form);
+
+      return radio;
+    });
+
+    expect(free.checked).toStrictEqual(true);
+    expect(pro.checked).toStrictEqual(false);
+
+    pro.checked = true;
+    pro.dispatchEvent(new Event("change"));
+
+    expect(get(form.values).plan).toStrictEqual("pro");
+    expect(free.checked).toStrictEqual(false);
+  });
+
+  it("Binds file inputs", () => {
+    const form = newForm<{ avatar: File | null; photos: FileList | null }>({
+      initialValues: { avatar: null, photos: null },
+      onSubmit: vi.fn(),
+    });
+    const avatar = createElement("input", { name: "avatar", type: "file" });
+    const photos = createElement("input", { name: "photos", type: "file" });
+
+    photos.multiple = true;
+    field(avatar, form);
+    field(photos, form);
+    avatar.dispatchEvent(new Event("change"));
+    photos.dispatchEvent(new Event("change"));
+
+    expect(get(form.values).avatar).toBeNull();
+    expect(get(form.values).photos).toBe(photos.files);
+  });
+
+  it("Binds date inputs to `Date` instances", () => {
+    const form = newForm<{ birthday: Date | null }>({
+      initialValues: { birthday: new Date("2000-01-31") },
+      onSubmit: vi.fn(),
+      valueAsDate: true,
+    });
+    const input = createElement("input", { name: "birthday", type: "date" });
+
+    field(input, form);
+
+    expect(input.value).toStrictEqual("2000-01-31");
+
+    input.value = "2001-02-28";
+    input.dispatchEvent(new Event("input"));
+
+    expect(get(form.values).birthday).toEqual(new Date("2001-02-28"));
+  });
+});
+
+describe("Action: field lifecycle", () => {
+  it("Releases listeners and the values subscription on `destroy`", () => {
+    const form = newForm({
+      initialValues: { name: "James" },
+      onSubmit: vi.fn(),
+    });
+    const input = createElement("input", { name: "name", type: "text" });
+    const action = field(input, form);
+
+    action.destroy();
+
+    input.value = "Bond";
+    input.dispatchEvent(new Event("input"));
+    input.dispatchEvent(new Event("blur"));
+
+    expect(get(form.values).name).toStrictEqual("James");
+    expect(get(form.touched).name).toStrictEqual(false);
+
+    form.setFieldValue("name", "Q");
+
+    expect(input.value).toStrictEqual("Bond");
+  });
+
+  it("Binds the field to the `name` provided in the options", () => {
+    const form = newForm({
+      initialValues: { address: { city: "London" } },
+      onSubmit: vi.fn(),
+    });
+    const input = createElement("input", { type: "text" });
+
+    field(input, { form, name: "address.city" });
+
+    expect(input.value).toStrictEqual("London");
+
+    input.value = "Paris";
+    input.dispatchEvent(new Event("input"));
+
+    expect(get(form.values).address.city).toStrictEqual("Paris");
+  });
+
+  it("Switches the form and field name on `update`", () => {
+    const form = newForm({
+      initialValues: { name: "James", last: "Bond" },
+      onSubmit: vi.fn(),
+    });
+    const otherForm = newForm({
+      initialValues: { name: "Moneypenny", last: "Eve" },
+      onSubmit: vi.fn(),
+    });
+    const input = createElement("input", { name: "name", type: "text" });
+    const action = field(input, form);
+
+    expect(input.value).toStrictEqual("James");
+
+    action.update({ form, name: "last" });
+    expect(input.value).toStrictEqual("Bond");
+
+    action.update(otherForm);
+    expect(input.value).toStrictEqual("Moneypenny");
+
+    input.value = "Eve";
+    input.dispatchEvent(new Event("input"));
+    form.setFieldValue("name", "Q");
+
+    expect(get(otherForm.values).name).toStrictEqual("Eve");
+    expect(get(form.values).name).toStrictEqual("Q");
+    expect(input.value).toStrictEqual("Eve");
+  });
+
+  it("Applies per-field validation options", async () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator((values: { name: string }) => ({
+        name: values.name.length > 2 ? undefined : "Too short",
+      })),
+    });
+    const input = createElement("input", { name: "name", type: "text" });
+
+    field(input, { form, validateOnInput: true });
+
+    input.value = "Q";
+    input.dispatchEvent(new Event("input"));
+
+    await vi.waitFor(() =>
+      expect(get(form.errors).name).toStrictEqual("Too short")
+    );
+  });
+
+  it("Applies per-field validation modes to changes made through `values`", async () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      mode: "onSubmit",
+      validator: functionValidator((values: { name: string }) => ({
+        name: values.name.length > 2 ? undefined : "Too short",
+      })),
+    });
+    const input = createElement("input", { name: "name", type: "text" });
+
+    field(input, { form, mode: "onChange" });
+
+    form.values.set({ name: "Q" });
+
+    await vi.waitFor(() =>
+      expect(get(form.errors).name).toStrictEqual("Too short")
+    );
+  });
+});
+
+describe("Action: field formatting", () => {
+  const createAmountForm = () =>
+    newForm({
+      initialValues: { amount: 1250 },
+      onSubmit: vi.fn(),
+      fields: {
+        amount: {
+          parse: (value) => Number(String(value).replace(/,/g, "")),
+          format: (value) => Number(value).toLocaleString("en-US"),
+        },
+      },
+    });
+
+  it("Writes the formatted value into the element", () => {
+    const form = createAmountForm();
+    const input = createElement("input", { name: "amount", type: "text" });
+
+    field(input, form);
+
+    expect(input.value).toStrictEqual("1,250");
+
+    form.setFieldValue("amount", 3000);
+
+    expect(input.value).toStrictEqual("3,000");
+  });
+
+  it("Defers formatting while the element is focused", () => {
+    const form = createAmountForm();
+    const input = createElement("input", { name: "amount", type: "text" });
+
+    document.body.appendChild(input);
+    field(input, form);
+    input.focus();
+
+    input.value = "12000";
+    input.dispatchEvent(new Event("input"));
+
+    expect(get(form.values).amount).toStrictEqual(12000);
+    expect(input.value).toStrictEqual("12000");
+
+    input.blur();
+
+    expect(input.value).toStrictEqual("12,000");
+    input.remove();
+  });
+});
+
+describe("Action: field accessibility", () => {
+  const createSignupForm = (config = {}) =>
+    newForm({
+      id: "signup",
+      initialValues: { name: "", email: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator((values: { name: string; email: string }) => ({
+        name: values.name ? undefined : "Required",
+        email: values.email ? undefined : "Required",
+      })),
+      ...config,
+    });
+
+  it("Sets `aria-invalid` and `aria-describedby` while the field has an error", () => {
+    const form = createSignupForm();
+    const input = createElement("input", {
+      name: "email",
+      type: "email",
+      "aria-describedby": "email-hint",
+    });
+
+    field(input, form);
+
+    expect(input.hasAttribute("aria-invalid")).toBe(false);
+    expect(input.getAttribute("aria-describedby")).toStrictEqual("email-hint");
+
+    form.setFieldError("email", "Required");
+
+    expect(form.getFieldErrorId("email")).toStrictEqual("signup-email-error");
+    expect(input.getAttribute("aria-invalid")).toStrictEqual("true");
+    expect(input.getAttribute("aria-describedby")).toStrictEqual(
+      "email-hint signup-email-error"
+    );
+
+    form.setFieldError("email", undefined);
+
+    expect(input.hasAttribute("aria-invalid")).toBe(false);
+    expect(input.getAttribute("aria-describedby")).toStrictEqual("email-hint");
+  });
+
+  it("Focuses the first invalid field after a failed submission", async () => {
+    const form = createSignupForm();
+    const name = createElement("input", { name: "name", type: "text" });
+    const email = createElement("input", { name: "email", type: "email" });
+    const scrollIntoView = vi.fn();
+
+    email.scrollIntoView = scrollIntoView;
+    document.body.append(name, email);
+    field(email, form);
+    field(name, form);
+    form.setFieldValue("name", "James");
+
+    await form.handleSubmit({} as Event);
+
+    expect(document.activeElement).toBe(email);
+    expect(scrollIntoView).toHaveBeenCalledOnce();
+
+    name.remove();
+    email.remove();
+  });
+
+  it("Focuses the first invalid field in document order", async () => {
+    const form = createSignupForm();
+    const name = createElement("input", { name: "name", type: "text" });
+    const email = createElement("input", { name: "email", type: "email" });
+
+    document.body.append(name, email);
+    field(email, form);
+    field(name, form);
+
+    await form.handleSubmit({} as Event);
+
+    expect(document.activeElement).toBe(name);
+
+    name.remove();
+    email.remove();
+  });
+
+  it("Doesn't move the focus if `focusOnError` is `false`", async () => {
+    const form = createSignupForm({ focusOnError: false });
+    const name = createElement("input", { name: "name", type: "text" });
+
+    document.body.append(name);
+    field(name, form);
+
+    await form.handleSubmit({} as Event);
+
+    expect(document.activeElement).not.toBe(name);
+
+    name.remove();
+  });
+});
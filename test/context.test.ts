@@ -0,0 +1,76 @@
+import { fireEvent, render } from "@testing-library/svelte";
+import { get } from "svelte/store";
+import { describe, expect, it, vi } from "vitest";
+
+import { newForm, useField } from "../src";
+import Field from "./components/Field.svelte";
+import FormProvider from "./components/FormProvider.svelte";
+
+import type { FormInstance } from "../src";
+
+const createForm = () =>
+  newForm({
+    initialValues: { name: "", address: { city: "" } },
+    onSubmit: () => {},
+  });
+
+describe("Context", () => {
+  it("Throws if no form is available in context", () => {
+    expect(() => render(Field, { props: { name: "name" } })).toThrowError(
+      /Missing "FormInstance"/
+    );
+  });
+
+  it("Provides the form to `useField` in child components", async () => {
+    let form: FormInstance<{ name: string; address: { city: string } }>;
+    const { getByLabelText, findByText } = render(FormProvider, {
+      props: { onForm: (instance: typeof form) => (form = instance) },
+    });
+
+    await fireEvent.input(getByLabelText("address.city"), {
+      target: { value: "London" },
+    });
+
+    expect(get(form.values).address.city).toBe("London");
+
+    form.setFieldError("address.city", "Unknown city.");
+
+    expect((await findByText("Unknown city.")).id).toBe(
+      form.getFieldErrorId("address.city")
+    );
+  });
+});
+
+describe("Context: useField", () => {
+  it("Notifies subscribers only when the field changes", () => {
+    const form = createForm();
+    const { value, error, touched, dirty } = useField<string>("name", form);
+    const onValue = vi.fn();
+
+    value.subscribe(onValue);
+    form.setFieldValue("address.city", "London");
+    form.setFieldValue("name", "James");
+
+    expect(onValue.mock.calls).toEqual([[""], ["James"]]);
+    expect(get(dirty)).toBe(true);
+    expect(get(touched)).toBe(false);
+    expect(get(error)).toBeUndefined();
+  });
+
+  it("Binds handlers and setters to the field", () => {
+    const form = createForm();
+    const field = useField<string>("address.city", form);
+    const input = document.createElement("input");
+
+    input.value = "London";
+    input.addEventListener("input", field.handleInput);
+    input.addEventListener("blur", field.handleBlur);
+    input.dispatchEvent(new Event("input"));
+    input.dispatchEvent(new Event("blur"));
+    field.setError("Unknown city.");
+
+    expect(get(form.values).address.city).toBe("London");
+    expect(get(field.touched)).toBe(true);
+    expect(get(field.error)).toBe("Unknown city.");
+  });
+});
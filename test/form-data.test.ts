@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  fromFormData,
+  newForm,
+  toFormData,
+  toURLSearchParams,
+  withFormData,
+} from "../src";
+
+const avatar = new File(["007"], "avatar.png");
+
+const values = {
+  name: "James",
+  age: 42,
+  agent: true,
+  retired: false,
+  birthday: new Date("1968-04-13T00:00:00.000Z"),
+  address: { city: "London", zip: null },
+  tags: ["spy", "agent"],
+  items: [{ qty: 1 }, { qty: 2 }],
+  avatar,
+};
+
+describe("Form Data: fromFormData", () => {
+  it("Reads nested paths and coerces entries by the shape", () => {
+    const formData = new FormData();
+
+    formData.append("name", "James");
+    formData.append("age", "42");
+    formData.append("address.city", "London");
+    formData.append("items[0].qty", "2");
+    formData.append("items[1].qty", "");
+    formData.append("birthday", "1968-04-13");
+
+    expect(
+      fromFormData(formData, {
+        name: "",
+        age: 0,
+        address: { city: "" },
+        items: [{ qty: 1 }],
+        birthday: new Date(),
+      })
+    ).toEqual({
+      name: "James",
+      age: 42,
+      address: { city: "London" },
+      items: [{ qty: 2 }, { qty: null }],
+      birthday: new Date("1968-04-13"),
+    });
+  });
+
+  it("Handles checkboxes, multiple values and files", () => {
+    const formData = new FormData();
+    const avatar = new File(["007"], "avatar.png");
+
+    formData.append("terms", "on");
+    formData.append("tags", "spy");
+    formData.append("tags", "agent");
+    formData.append("avatar", avatar);
+    formData.append("resume", new File([], ""));
+
+    expect(
+      fromFormData(formData, {
+        terms: false,
+        newsletter: true,
+        tags: [],
+        colors: ["red"],
+        avatar: null,
+        resume: null,
+      })
+    ).toEqual({
+      terms: true,
+      newsletter: false,
+      tags: ["spy", "agent"],
+      colors: [],
+      avatar,
+      resume: null,
+    });
+  });
+
+  it("Ignores entries for fields missing from the shape", () => {
+    const formData = new FormData();
+
+    formData.append("name", "James");
+    formData.append("isAdmin", "true");
+    formData.append("__proto__.role", "admin");
+    formData.append("constructor.prototype.role", "admin");
+    formData.append("address.zip", "W1");
+
+    const result = fromFormData(formData, { name: "", address: { city: "" } });
+
+    expect(result).toStrictEqual({ name: "James", address: { city: "" } });
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect((result as Record<string, unknown>).role).toBeUndefined();
+  });
+
+  it("Ignores out of bounds indexes and removes missing rows", () => {
+    const formData = new FormData();
+
+    formData.append("items[0].qty", "1");
+    formData.append("items[2].qty", "3");
+    formData.append("items[4294967294].qty", "5");
+    formData.append("items[1000000].qty", "7");
+
+    const result = fromFormData(formData, { items: [{ qty: 0 }] });
+
+    expect(result.items).toStrictEqual([{ qty: 1 }, { qty: 3 }]);
+  });
+});
+
+describe("Form Data: toFormData", () => {
+  it("Serializes nested paths, arrays, booleans, dates and files", () => {
+    const formData = toFormData(values);
+    const entries: Array<[string, FormDataEntryValue]> = [];
+
+    formData.forEach((value, name) => entries.push([name, value]));
+
+    expect(entries).toEqual([
+      ["name", "James"],
+      ["age", "42"],
+      ["agent", "true"],
+      ["retired", "false"],
+      ["birthday", "1968-04-13T00:00:00.000Z"],
+      ["address.city", "London"],
+      ["tags", "spy"],
+      ["tags", "agent"],
+      ["items[0].qty", "1"],
+      ["items[1].qty", "2"],
+      ["avatar", expect.any(File)],
+    ]);
+  });
+
+  it("Names array items by index if `indices` is set", () => {
+    const formData = toFormData({ tags: ["spy", "agent"] }, { indices: true });
+
+    expect(formData.getAll("tags[1]")).toEqual(["agent"]);
+  });
+
+  it("Is read back by `fromFormData`", () => {
+    expect(fromFormData(toFormData(values), values)).toEqual(values);
+  });
+});
+
+describe("Form Data: toURLSearchParams", () => {
+  it("Serializes values URL-encoded omitting files", () => {
+    const params = toURLSearchParams(values);
+
+    expect(params.toString()).toBe(
+      "name=James&age=42&agent=true&retired=false&birthday=1968-04-13T00%3A00%3A00.000Z&address.city=London&tags=spy&tags=agent&items%5B0%5D.qty=1&items%5B1%5D.qty=2"
+    );
+    expect(fromFormData(params, { ...values, avatar: null })).toEqual({
+      ...values,
+      avatar: null,
+    });
+  });
+});
+
+describe("Form Data: withFormData", () => {
+  it("Provides the serialized body to `onSubmit`", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { name: "James", avatar },
+      onSubmit: withFormData(onSubmit),
+    });
+
+    await form.handleSubmit(new Event("submit"));
+
+    const [body, submittedValues] = onSubmit.mock.calls[0];
+
+    expect(body).toBeInstanceOf(FormData);
+    expect(body.get("name")).toBe("James");
+    expect(body.get("avatar")).toBeInstanceOf(File);
+    expect(submittedValues).toEqual({ name: "James", avatar });
+  });
+});
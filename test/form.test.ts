@@ -1,11 +1,14 @@
+import { fireEvent, render } from "@testing-library/svelte";
 import { get } from "svelte/store";
 import * as Yup from "yup";
 import { describe, expect, it, vi } from "vitest";
 
-import { newForm } from "../src";
+import { functionValidator, newForm } from "../src";
 import { getInputValue } from "../src";
+import BoundForm from "./components/BoundForm.svelte";
+import FormProvider from "./components/FormProvider.svelte";
 
-import type { FormConfig } from "../src";
+import type { FormConfig, FormInstance } from "../src";
 
 describe("Form: initialValues", () => {
   it("Creates a new form with initial values", () => {
@@ -150,6 +153,51 @@ describe("Form: validateField", () => {
     const errors2 = get(form.errors);
     expect(errors2.name).toBeNull();
   });
+
+  it("Rejects with the error thrown by the validator", async () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      validationSchema: Yup.object({
+        name: Yup.string().test("unreachable", () => {
+          throw new Error("Network error");
+        }),
+      }),
+    });
+
+    await expect(form.validateField("name")).rejects.toThrowError(
+      "Network error"
+    );
+    expect(get(form.validatingFields).name).toBe(false);
+  });
+
+  it("Logs errors from handler validations only under `debug`", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const createForm = (debug: boolean) =>
+      newForm({
+        initialValues: { name: "" },
+        onSubmit: vi.fn(),
+        debug,
+        validateOnBlur: true,
+        validator: {
+          ...functionValidator(() => ({})),
+          validateAt: async () => {
+            throw new Error("Network error");
+          },
+        },
+      });
+    const blur = { target: { name: "name" } } as unknown as Event;
+
+    createForm(false).handleBlur(blur);
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(error).not.toHaveBeenCalled();
+
+    createForm(true).handleBlur(blur);
+    await vi.waitFor(() => expect(error).toHaveBeenCalledOnce());
+
+    error.mockRestore();
+  });
 });
 
 describe("Form Internals: getInputValue", () => {
@@ -171,6 +219,106 @@ describe("Form Internals: getInputValue", () => {
     expect(getInputValue(htmlInputElement)).toStrictEqual(1234);
   });
 
+  it('Retrieves `null` if the type is "number" and the input is empty', () => {
+    const htmlInputElement = {
+      type: "number",
+      value: "",
+    } as HTMLInputElement;
+
+    expect(getInputValue(htmlInputElement)).toBeNull();
+  });
+
+  it('Retrieves the value of the checked radio if the type is "radio"', () => {
+    const htmlInputElement = {
+      type: "radio",
+      value: "pro",
+      checked: true,
+    } as HTMLInputElement;
+
+    expect(getInputValue(htmlInputElement, "free")).toStrictEqual("pro");
+    expect(
+      getInputValue({ ...htmlInputElement, checked: false }, "free")
+    ).toStrictEqual("free");
+  });
+
+  it('Retrieves a "File" or a "FileList" if the type is "file"', () => {
+    const file = new File(["007"], "agent.txt");
+    const files = [file] as unknown as FileList;
+    const htmlInputElement = {
+      type: "file",
+      files,
+      multiple: false,
+    } as HTMLInputElement;
+
+    expect(getInputValue(htmlInputElement)).toBe(file);
+    expect(getInputValue({ ...htmlInputElement, multiple: true })).toBe(files);
+    expect(
+      getInputValue({ ...htmlInputElement, files: [] as unknown as FileList })
+    ).toBeNull();
+  });
+
+  it('Retrieves a string or a "Date" if the type is "date"', () => {
+    const htmlInputElement = {
+      type: "date",
+      value: "2000-01-31",
+      valueAsDate: new Date("2000-01-31"),
+    } as HTMLInputElement;
+
+    expect(getInputValue(htmlInputElement)).toStrictEqual("2000-01-31");
+    expect(
+      getInputValue(htmlInputElement, undefined, { valueAsDate: true })
+    ).toEqual(new Date("2000-01-31"));
+    expect(getInputValue({ ...htmlInputElement, value: "" })).toBeNull();
+  });
+
+  it('Retrieves a "Date" from "valueAsNumber" if the type is "datetime-local"', () => {
+    const htmlInputElement = {
+      type: "datetime-local",
+      value: "2000-01-31T10:30",
+      valueAsDate: null,
+      valueAsNumber: Date.UTC(2000, 0, 31, 10, 30),
+    } as HTMLInputElement;
+
+    expect(
+      getInputValue(htmlInputElement, undefined, { valueAsDate: true })
+    ).toEqual(new Date(Date.UTC(2000, 0, 31, 10, 30)));
+  });
+
+  it('Retrieves the selected values if the type is "select-multiple"', () => {
+    const htmlSelectElement = {
+      type: "select-multiple",
+      selectedOptions: [{ value: "s" }, { value: "l" }],
+    } as unknown as HTMLSelectElement;
+
+    expect(getInputValue(htmlSelectElement)).toEqual(["s", "l"]);
+  });
+
+  it('Retrieves the "checked" state if the type is "checkbox"', () => {
+    const htmlInputElement = {
+      type: "checkbox",
+      value: "on",
+      checked: true,
+    } as HTMLInputElement;
+
+    expect(getInputValue(htmlInputElement)).toStrictEqual(true);
+  });
+
+  it('Updates the array membership if the type is "checkbox" and the current value is an array', () => {
+    const htmlInputElement = {
+      type: "checkbox",
+      value: "ham",
+      checked: true,
+    } as HTMLInputElement;
+
+    expect(getInputValue(htmlInputElement, ["cheese"])).toEqual([
+      "cheese",
+      "ham",
+    ]);
+    expect(
+      getInputValue({ ...htmlInputElement, checked: false }, ["cheese", "ham"])
+    ).toEqual(["cheese"]);
+  });
+
   it('Retrieves the input value "as is" as fallback', () => {
     const instances = [
       {
@@ -343,9 +491,9 @@ describe("Yup Validation Options: abortEarly error reporting behavior", () => {
 
     const errors = get(form.errors);
 
-    expect(errors.name).toBeUndefined();
+    expect(errors.name).toBeNull();
     expect(errors.lastName).toStrictEqual('You must provide the last name.');
-    expect(Object.keys(errors).length).toStrictEqual(1);
+    expect(Object.values(errors).filter(Boolean).length).toStrictEqual(1);
   });
 });
 
@@ -413,3 +561,1110 @@ describe("Form Debug Behavior", () => {
     expect(consoleMock).not.toHaveBeenCalled();
   });
 });
+
+describe("Form: Nested field paths", () => {
+  const initialValues = {
+    name: "",
+    address: {
+      city: "",
+      zip: "",
+    },
+    items: [{ qty: 1 }, { qty: 2 }],
+  };
+
+  const validationSchema = Yup.object({
+    name: Yup.string(),
+    address: Yup.object({
+      city: Yup.string().required("You must provide the city."),
+      zip: Yup.string().required("You must provide the zip code."),
+    }),
+    items: Yup.array().of(
+      Yup.object({
+        qty: Yup.number().min(1, "Quantity must be at least 1."),
+      })
+    ),
+  });
+
+  it("Sets nested values using dot and bracket notation", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.setFieldValue("address.city", "Caracas");
+    form.setFieldValue("items[1].qty", 5);
+
+    const values = get(form.values);
+
+    expect(values.address.city).toStrictEqual("Caracas");
+    expect(values.address.zip).toStrictEqual("");
+    expect(values.items[1].qty).toStrictEqual(5);
+    expect(initialValues.address.city).toStrictEqual("");
+  });
+
+  it("Mirrors the nested shape on `errors` and `touched`", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.setFieldError("address.city", "Invalid city");
+    form.setFieldTouched("items[0].qty", true);
+
+    expect(get(form.errors).address.city).toStrictEqual("Invalid city");
+    expect(get(form.errors).address.zip).toBeNull();
+    expect(get(form.touched).address.city).toStrictEqual(false);
+    expect(get(form.touched).items[0].qty).toStrictEqual(true);
+  });
+
+  it("Validates a nested field", async () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+      validationSchema,
+    });
+
+    await form.validateField("address.city");
+    expect(get(form.errors).address.city).toStrictEqual(
+      "You must provide the city."
+    );
+
+    form.setFieldValue("address.city", "Caracas");
+    await form.validateField("address.city");
+    expect(get(form.errors).address.city).toBeNull();
+  });
+
+  it("Updates nested values from `handleInput` using the input name", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.handleInput({
+      target: {
+        name: "address.zip",
+        value: "1010",
+        type: "text",
+      },
+    } as unknown as Event);
+
+    expect(get(form.values).address.zip).toStrictEqual("1010");
+  });
+
+  it("Reports nested errors on submit", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm<typeof initialValues>({
+      initialValues: {
+        ...initialValues,
+        items: [{ qty: 1 }, { qty: 0 }],
+      },
+      onSubmit,
+      validationSchema,
+    });
+
+    await form.handleSubmit({} as Event);
+
+    const errors = get(form.errors);
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(errors.address.city).toStrictEqual("You must provide the city.");
+    expect(errors.address.zip).toStrictEqual("You must provide the zip code.");
+    expect(errors.items[1].qty).toStrictEqual("Quantity must be at least 1.");
+  });
+
+  it("Keeps the nested shape of `errors` after a failed submit", async () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+      validationSchema: Yup.object({
+        name: Yup.string().required("You must provide the name."),
+      }),
+    });
+
+    await form.handleSubmit({} as Event);
+
+    const errors = get(form.errors);
+
+    expect(errors.name).toStrictEqual("You must provide the name.");
+    expect(errors.address.city).toBeNull();
+    expect(errors.items[0].qty).toBeNull();
+
+    form.setErrors({ name: "Taken." });
+
+    expect(get(form.errors).address.zip).toBeNull();
+    expect(get(form.errors).items[1].qty).toBeNull();
+  });
+
+  it("Doesn't share nested objects between `values` and `initialValues`", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    // Mirrors the update compiled from `bind:value={$values.address.city}`
+    form.values.update((values) => {
+      values.address.city = "Caracas";
+      return values;
+    });
+
+    expect(get(form.initialValues).address.city).toStrictEqual("");
+    expect(get(form.isDirty)).toStrictEqual(true);
+
+    form.reset();
+    form.values.update((values) => {
+      values.items[0].qty = 5;
+      return values;
+    });
+
+    expect(get(form.initialValues).items[0].qty).toStrictEqual(1);
+    expect(get(form.isDirty)).toStrictEqual(true);
+  });
+});
+
+describe("Form: fieldArray", () => {
+  type Row = { qty: number };
+
+  const newRowsForm = (items: Row[]) =>
+    newForm<{ items: Row[] }>({
+      initialValues: { items },
+      onSubmit: vi.fn(),
+    });
+
+  it("Pushes and inserts rows", () => {
+    const form = newRowsForm([{ qty: 1 }]);
+    const { push, insert } = form.fieldArray<Row>("items");
+
+    push({ qty: 3 });
+    insert(1, { qty: 2 });
+
+    expect(get(form.values).items).toEqual([
+      { qty: 1 },
+      { qty: 2 },
+      { qty: 3 },
+    ]);
+    expect(get(form.errors).items[1].qty).toBeNull();
+    expect(get(form.touched).items[2].qty).toStrictEqual(false);
+  });
+
+  it("Keeps errors and touched aligned when removing a row", () => {
+    const form = newRowsForm([{ qty: 1 }, { qty: 2 }, { qty: 3 }]);
+    const { remove } = form.fieldArray<Row>("items");
+
+    form.setFieldError("items[2].qty", "Row 2 error");
+    form.setFieldTouched("items[2].qty", true);
+    remove(1);
+
+    expect(get(form.values).items).toEqual([{ qty: 1 }, { qty: 3 }]);
+    expect(get(form.errors).items[1].qty).toStrictEqual("Row 2 error");
+    expect(get(form.errors).items[2]).toBeUndefined();
+    expect(get(form.touched).items[1].qty).toStrictEqual(true);
+  });
+
+  it("Moves and swaps rows along with their errors", () => {
+    const form = newRowsForm([{ qty: 1 }, { qty: 2 }, { qty: 3 }]);
+    const { move, swap } = form.fieldArray<Row>("items");
+
+    form.setFieldError("items[0].qty", "First row error");
+    move(0, 2);
+
+    expect(get(form.values).items).toEqual([
+      { qty: 2 },
+      { qty: 3 },
+      { qty: 1 },
+    ]);
+    expect(get(form.errors).items[2].qty).toStrictEqual("First row error");
+
+    swap(0, 2);
+
+    expect(get(form.values).items).toEqual([
+      { qty: 1 },
+      { qty: 3 },
+      { qty: 2 },
+    ]);
+    expect(get(form.errors).items[0].qty).toStrictEqual("First row error");
+    expect(get(form.errors).items[2]).toEqual({ qty: null });
+  });
+
+  it("Replaces a row clearing its errors", () => {
+    const form = newRowsForm([{ qty: 1 }, { qty: 2 }]);
+    const { replace } = form.fieldArray<Row>("items");
+
+    form.setFieldError("items[1].qty", "Invalid");
+    replace(1, { qty: 5 });
+
+    expect(get(form.values).items).toEqual([{ qty: 1 }, { qty: 5 }]);
+    expect(get(form.errors).items[1]).toEqual({ qty: null });
+  });
+
+  it("Provides stable keys for rows", () => {
+    const form = newRowsForm([{ qty: 1 }, { qty: 2 }, { qty: 3 }]);
+    const { items, remove, push } = form.fieldArray<Row>("items");
+    const [first, , third] = get(items).map(({ key }) => key);
+
+    remove(1);
+    push({ qty: 4 });
+
+    const keys = get(items).map(({ key }) => key);
+
+    expect(keys[0]).toStrictEqual(first);
+    expect(keys[1]).toStrictEqual(third);
+    expect(new Set(keys).size).toStrictEqual(3);
+    expect(get(form.fieldArray<Row>("items").items)[1].key).toStrictEqual(
+      third
+    );
+  });
+});
+
+describe("Form: fields configuration", () => {
+  it("Uses the field's `parser` instead of `getInputValue`", () => {
+    const form = newForm({
+      initialValues: { code: "" },
+      onSubmit: vi.fn(),
+      fields: {
+        code: {
+          parser: (element) => element.value.toUpperCase(),
+        },
+      },
+    });
+
+    form.handleInput({
+      target: { name: "code", value: "abc", type: "text" },
+    } as unknown as Event);
+
+    expect(get(form.values).code).toStrictEqual("ABC");
+  });
+
+  it("Prefers the handler's options over the `fields` configuration", () => {
+    const form = newForm({
+      initialValues: { amount: null },
+      onSubmit: vi.fn(),
+      fields: {
+        amount: { parser: () => 1 },
+      },
+    });
+
+    form.handleChange(
+      { target: { name: "amount", value: "", type: "number" } } as unknown as Event,
+      { parser: () => 2 }
+    );
+
+    expect(get(form.values).amount).toStrictEqual(2);
+  });
+
+  it("Applies the field's `parse` to the value read from the element", () => {
+    const form = newForm({
+      initialValues: { amount: null },
+      onSubmit: vi.fn(),
+      fields: {
+        amount: {
+          parse: (value) => Number(String(value).replace(/,/g, "")),
+        },
+      },
+    });
+
+    form.handleInput({
+      target: { name: "amount", value: "1,250", type: "text" },
+    } as unknown as Event);
+
+    expect(get(form.values).amount).toStrictEqual(1250);
+  });
+
+  it("Exposes the merged configuration through `getFieldConfig`", () => {
+    const parse = (value: unknown) => value;
+    const form = newForm({
+      initialValues: { amount: null },
+      onSubmit: vi.fn(),
+      fields: {
+        amount: { parse, validateOnBlur: false },
+      },
+    });
+
+    expect(
+      form.getFieldConfig("amount", { validateOnBlur: true })
+    ).toStrictEqual({ parse, validateOnBlur: true });
+  });
+});
+
+describe("Form: asynchronous field validation", () => {
+  const deferred = () => {
+    let resolve: (errors: Record<string, string | undefined>) => void;
+    const promise = new Promise<Record<string, string | undefined>>(
+      (res) => (resolve = res)
+    );
+
+    return { promise, resolve };
+  };
+
+  it("Discards the result of stale validations", async () => {
+    const runs = [deferred(), deferred()];
+    let calls = 0;
+    const form = newForm({
+      initialValues: { username: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator(() => runs[calls++].promise),
+    });
+
+    const first = form.validateField("username");
+    const second = form.validateField("username");
+
+    runs[1].resolve({});
+    await second;
+    runs[0].resolve({ username: "Username is taken." });
+    await first;
+
+    expect(get(form.errors).username).toBeNull();
+  });
+
+  it("Tracks the fields being validated on `validatingFields`", async () => {
+    const run = deferred();
+    const form = newForm({
+      initialValues: { username: "", email: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator(() => run.promise),
+    });
+
+    const validation = form.validateField("username");
+
+    expect(get(form.validatingFields).username).toStrictEqual(true);
+    expect(get(form.validatingFields).email).toStrictEqual(false);
+
+    run.resolve({ username: "Username is taken." });
+    await validation;
+
+    expect(get(form.validatingFields).username).toStrictEqual(false);
+    expect(get(form.errors).username).toStrictEqual("Username is taken.");
+  });
+
+  it("Debounces validations on `handleInput`", async () => {
+    vi.useFakeTimers();
+
+    const validate = vi.fn(() => ({}));
+    const form = newForm({
+      initialValues: { username: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator(validate),
+      validateOnInput: true,
+      validationDebounce: 300,
+    });
+    const input = (value: string) =>
+      form.handleInput({
+        target: { name: "username", value, type: "text" },
+      } as unknown as Event);
+
+    input("j");
+    vi.advanceTimersByTime(200);
+    input("ja");
+    vi.advanceTimersByTime(200);
+
+    expect(validate).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+
+    expect(validate).toHaveBeenCalledOnce();
+    expect(validate).toHaveBeenCalledWith({ username: "ja" });
+
+    vi.useRealTimers();
+  });
+
+  it("Discards field validations in progress on `handleSubmit`", async () => {
+    const run = deferred();
+    const form = newForm({
+      initialValues: { username: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator((values: { username: string }) =>
+        values.username ? run.promise : { username: "Required" }
+      ),
+    });
+
+    form.setFieldValue("username", "james");
+    const validation = form.validateField("username");
+    form.setFieldValue("username", "");
+    await form.handleSubmit({} as Event);
+
+    run.resolve({});
+    await validation;
+
+    expect(get(form.errors).username).toStrictEqual("Required");
+    expect(get(form.validatingFields).username).toStrictEqual(false);
+  });
+});
+
+describe("Form: validateForm", () => {
+  const validationSchema = Yup.object({
+    name: Yup.string().required("You must provide the name."),
+    lastName: Yup.string().required("You must provide the last name."),
+  });
+
+  it("Validates the whole form without submitting", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { name: "", lastName: "Bond" },
+      onSubmit,
+      validationSchema,
+    });
+
+    expect(await form.validateForm()).toStrictEqual(false);
+    expect(get(form.errors).name).toStrictEqual("You must provide the name.");
+    expect(get(form.isValid)).toStrictEqual(false);
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    form.setFieldValue("name", "James");
+
+    expect(await form.validateForm()).toStrictEqual(true);
+    expect(get(form.errors).name).toBeNull();
+    expect(get(form.isValid)).toStrictEqual(true);
+  });
+
+  it("Respects `validationOptions`", async () => {
+    const form = newForm({
+      initialValues: { name: "", lastName: "" },
+      onSubmit: vi.fn(),
+      validationSchema,
+      validationOptions: { abortEarly: true },
+    });
+
+    await form.validateForm();
+
+    expect(Object.values(get(form.errors)).filter(Boolean).length).toStrictEqual(
+      1
+    );
+  });
+});
+
+describe("Form: isValid", () => {
+  it("Reflects the `errors` store by default", () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+    });
+
+    expect(get(form.isValid)).toStrictEqual(true);
+
+    form.setFieldError("name", "Invalid");
+    expect(get(form.isValid)).toStrictEqual(false);
+
+    form.clearErrors();
+    expect(get(form.isValid)).toStrictEqual(true);
+  });
+
+  it("Is kept up to date as values change with `liveValidation`", async () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      liveValidation: true,
+      validationSchema: Yup.object({
+        name: Yup.string().required("You must provide the name."),
+      }),
+    });
+
+    await vi.waitFor(() => expect(get(form.isValid)).toStrictEqual(false));
+    expect(get(form.errors).name).toBeNull();
+
+    form.setFieldValue("name", "James");
+
+    await vi.waitFor(() => expect(get(form.isValid)).toStrictEqual(true));
+  });
+});
+
+describe("Form: submission lifecycle", () => {
+  const validationSchema = Yup.object({
+    name: Yup.string().required("You must provide the name."),
+  });
+
+  it("Counts every submission attempt on `submitCount`", async () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      validationSchema,
+    });
+
+    expect(get(form.submitCount)).toStrictEqual(0);
+
+    await form.handleSubmit({} as Event);
+    form.setFieldValue("name", "James");
+    await form.handleSubmit({} as Event);
+
+    expect(get(form.submitCount)).toStrictEqual(2);
+  });
+
+  it("Transitions `submitState` through the submission stages", async () => {
+    const states: string[] = [];
+    const form = newForm({
+      initialValues: { name: "James" },
+      onSubmit: vi.fn(),
+      validationSchema,
+    });
+
+    form.submitState.subscribe((state) => states.push(state));
+    await form.handleSubmit({} as Event);
+
+    expect(states).toEqual(["idle", "validating", "submitting", "succeeded"]);
+  });
+
+  it("Calls `onInvalid` with the validation errors", async () => {
+    const onInvalid = vi.fn();
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { name: "" },
+      onInvalid,
+      onSubmit,
+      validationSchema,
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith({
+      name: "You must provide the name.",
+    });
+    expect(get(form.submitState)).toStrictEqual("failed");
+    expect(get(form.lastSubmitError)).toBeNull();
+  });
+
+  it("Records `onSubmit` errors and calls `onSubmitError`", async () => {
+    const error = new Error("Network Error");
+    const onSubmitError = vi.fn();
+    const form = newForm({
+      initialValues: { name: "James" },
+      onSubmit: () => Promise.reject(error),
+      onSubmitError,
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmitError).toHaveBeenCalledWith(error);
+    expect(get(form.lastSubmitError)).toBe(error);
+    expect(get(form.submitState)).toStrictEqual("failed");
+    expect(get(form.isSubmitting)).toStrictEqual(false);
+  });
+
+  it("Re-throws `onSubmit` errors if `onSubmitError` is not provided", async () => {
+    const error = new Error("Network Error");
+    const form = newForm({
+      initialValues: { name: "James" },
+      onSubmit: () => Promise.reject(error),
+    });
+
+    await expect(form.handleSubmit({} as Event)).rejects.toBe(error);
+    expect(get(form.lastSubmitError)).toBe(error);
+  });
+});
+
+describe("Form: dirty tracking", () => {
+  const initialValues = {
+    name: "James",
+    tags: ["spy"],
+    address: { city: "London", zip: "SW1A" },
+    items: [{ qty: 1 }],
+  };
+
+  it("Compares array and object fields deeply", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.setFieldValue("tags", ["spy"]);
+    form.setFieldValue("address", { city: "London", zip: "SW1A" });
+
+    expect(get(form.isDirty)).toStrictEqual(false);
+
+    form.setFieldValue("tags", ["spy", "agent"]);
+
+    expect(get(form.isDirty)).toStrictEqual(true);
+  });
+
+  it("Mirrors the values shape on `dirtyFields`", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.setFieldValue("address.city", "Paris");
+    form.setFieldValue("items[1]", { qty: 2 });
+
+    expect(get(form.dirtyFields)).toEqual({
+      name: false,
+      tags: [false],
+      address: { city: true, zip: false },
+      items: [{ qty: false }, { qty: true }],
+    });
+    expect(form.isFieldDirty("address.city")).toStrictEqual(true);
+    expect(form.isFieldDirty("address.zip")).toStrictEqual(false);
+    expect(form.isFieldDirty("items")).toStrictEqual(true);
+    expect(form.isFieldDirty("name")).toStrictEqual(false);
+  });
+
+  it("Is not dirty once values match the initial values again", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.setFieldValue("address.city", "Paris");
+    expect(get(form.isDirty)).toStrictEqual(true);
+
+    form.setFieldValue("address.city", "London");
+    expect(get(form.isDirty)).toStrictEqual(false);
+
+    form.setFieldValue("name", "Bond");
+    form.setInitialValues({ ...initialValues, name: "Bond" });
+    expect(get(form.isDirty)).toStrictEqual(false);
+  });
+
+  it("Marks removed rows as dirty", () => {
+    const form = newForm<typeof initialValues>({
+      initialValues,
+      onSubmit: vi.fn(),
+    });
+
+    form.fieldArray("items").remove(0);
+
+    expect(get(form.dirtyFields).items).toEqual([true]);
+    expect(get(form.isDirty)).toStrictEqual(true);
+  });
+});
+
+describe("Form: error display policy", () => {
+  const createForm = (
+    errorDisplay?: FormConfig<{ email: string }>["errorDisplay"]
+  ) =>
+    newForm({
+      initialValues: { email: "" },
+      onSubmit: vi.fn(),
+      errorDisplay,
+      validator: functionValidator((values: { email: string }) => ({
+        email: values.email.includes("@") ? undefined : "Invalid email",
+      })),
+    });
+  const event = (value = "") =>
+    ({ target: { name: "email", value, type: "email" } } as unknown as Event);
+
+  it("Tracks focused fields as visited and blurred fields as touched", () => {
+    const form = createForm();
+
+    form.handleFocus(event());
+
+    expect(get(form.visited).email).toBe(true);
+    expect(get(form.touched).email).toBe(false);
+
+    form.handleBlur(event());
+
+    expect(get(form.touched).email).toBe(true);
+  });
+
+  it("Shows every error by default", () => {
+    const form = createForm();
+
+    form.setFieldError("email", "Invalid email");
+
+    expect(get(form.visibleErrors).email).toStrictEqual("Invalid email");
+  });
+
+  it("Shows errors of touched fields with `onTouched`", () => {
+    const form = createForm("onTouched");
+
+    form.setFieldError("email", "Invalid email");
+    form.handleFocus(event());
+
+    expect(get(form.errors).email).toStrictEqual("Invalid email");
+    expect(get(form.visibleErrors).email).toBeNull();
+
+    form.handleBlur(event());
+
+    expect(get(form.visibleErrors).email).toStrictEqual("Invalid email");
+  });
+
+  it("Shows errors of fields blurred after being edited with `onBlurAfterEdit`", () => {
+    const form = createForm("onBlurAfterEdit");
+
+    form.setFieldError("email", "Invalid email");
+    form.handleFocus(event());
+    form.handleBlur(event());
+
+    expect(get(form.visibleErrors).email).toBeNull();
+
+    form.handleFocus(event());
+    form.handleInput(event("james"));
+    form.handleBlur(event("james"));
+
+    expect(get(form.visibleErrors).email).toStrictEqual("Invalid email");
+  });
+
+  it("Shows every error once submitted with `afterFirstSubmit`", async () => {
+    const form = createForm("afterFirstSubmit");
+
+    form.setFieldError("email", "Invalid email");
+    form.handleBlur(event());
+
+    expect(get(form.visibleErrors).email).toBeNull();
+
+    await form.handleSubmit({} as Event);
+
+    expect(get(form.visibleErrors).email).toStrictEqual("Invalid email");
+  });
+});
+
+describe("Form: validation modes", () => {
+  type Values = { email: string; name: string };
+
+  const createForm = (config: Partial<FormConfig<Values>> = {}) =>
+    newForm<Values>({
+      initialValues: { email: "", name: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator((values: Values) => ({
+        email: values.email.includes("@") ? undefined : "Invalid email",
+        name: values.name ? undefined : "Required",
+      })),
+      ...config,
+    });
+  const event = (name: string, value = "") =>
+    ({ target: { name, value, type: "text" } } as unknown as Event);
+  const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+  it("Validates on change after the first submission with `onSubmit`", async () => {
+    const form = createForm({ mode: "onSubmit" });
+
+    form.handleInput(event("email", "james"));
+    form.handleBlur(event("email", "james"));
+    await flush();
+
+    expect(get(form.errors).email).toBeNull();
+
+    await form.handleSubmit({} as Event);
+
+    expect(get(form.errors).email).toStrictEqual("Invalid email");
+
+    form.handleInput(event("email", "james@example.com"));
+
+    await vi.waitFor(() => expect(get(form.errors).email).toBeNull());
+  });
+
+  it("Validates fields bound through `bind:value`", async () => {
+    let form: FormInstance<Values>;
+    const { getByLabelText } = render(BoundForm, {
+      props: {
+        config: {
+          initialValues: { email: "", name: "" },
+          onSubmit: vi.fn(),
+          validator: functionValidator((values: Values) => ({
+            email: values.email.includes("@") ? undefined : "Invalid email",
+            name: values.name ? undefined : "Required",
+          })),
+          mode: "onSubmit",
+        },
+        onForm: (instance: typeof form) => (form = instance),
+      },
+    });
+
+    await fireEvent.input(getByLabelText("email"), {
+      target: { value: "james" },
+    });
+    await flush();
+
+    expect(get(form.errors).email).toBeNull();
+
+    await form.handleSubmit({} as Event);
+
+    expect(get(form.errors).email).toStrictEqual("Invalid email");
+
+    await fireEvent.input(getByLabelText("email"), {
+      target: { value: "james@example.com" },
+    });
+
+    await vi.waitFor(() => expect(get(form.errors).email).toBeNull());
+    expect(get(form.errors).name).toStrictEqual("Required");
+  });
+
+  it("Validates on blur with `onBlur` and re-validates per `reValidateMode`", async () => {
+    const form = createForm({ mode: "onBlur", reValidateMode: "onBlur" });
+
+    form.handleInput(event("email", "james"));
+    await flush();
+
+    expect(get(form.errors).email).toBeNull();
+
+    form.handleBlur(event("email", "james"));
+
+    await vi.waitFor(() =>
+      expect(get(form.errors).email).toStrictEqual("Invalid email")
+    );
+
+    await form.handleSubmit({} as Event);
+    form.handleInput(event("email", "james@example.com"));
+    await flush();
+
+    expect(get(form.errors).email).toStrictEqual("Invalid email");
+  });
+
+  it("Validates on change once touched with `onTouched`", async () => {
+    const form = createForm({ mode: "onTouched" });
+
+    form.handleInput(event("email", "james"));
+    await flush();
+
+    expect(get(form.errors).email).toBeNull();
+
+    form.handleBlur(event("email", "james"));
+    await vi.waitFor(() =>
+      expect(get(form.errors).email).toStrictEqual("Invalid email")
+    );
+
+    form.handleInput(event("email", "james@example.com"));
+
+    await vi.waitFor(() => expect(get(form.errors).email).toBeNull());
+  });
+
+  it("Prefers the field's mode and ignores the `validateOn*` settings", async () => {
+    const form = createForm({
+      mode: "onSubmit",
+      validateOnInput: true,
+      fields: { name: { mode: "onChange" } },
+    });
+
+    form.handleInput(event("email", "james"));
+    form.handleInput(event("name", "J"));
+    form.handleInput(event("name", ""));
+
+    await vi.waitFor(() =>
+      expect(get(form.errors).name).toStrictEqual("Required")
+    );
+    expect(get(form.errors).email).toBeNull();
+  });
+});
+
+describe("Form: validation of changes through `values`", () => {
+  type Values = { email: string; name: string };
+
+  const renderForm = (config: Partial<FormConfig<Values>> = {}) => {
+    let form: FormInstance<Values>;
+    const { getByLabelText } = render(BoundForm, {
+      props: {
+        config: {
+          initialValues: { email: "", name: "" },
+          onSubmit: vi.fn(),
+          validator: functionValidator((values: Values) => ({
+            email: values.email.includes("@") ? undefined : "Invalid email",
+            name: values.name ? undefined : "Required",
+          })),
+          ...config,
+        },
+        onForm: (instance: typeof form) => (form = instance),
+      },
+    });
+    const input = (name: keyof Values, value: string) =>
+      fireEvent.input(getByLabelText(name), { target: { value } });
+
+    return { form, input };
+  };
+  const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+  it("Validates exactly the changed fields with `validateOnInput`", async () => {
+    const { form, input } = renderForm({ validateOnInput: true });
+
+    await input("email", "james");
+
+    await vi.waitFor(() =>
+      expect(get(form.errors).email).toStrictEqual("Invalid email")
+    );
+    expect(get(form.errors).name).toBeNull();
+  });
+
+  it("Debounces the validation with `validationDebounce`", async () => {
+    vi.useFakeTimers();
+
+    const { form, input } = renderForm({
+      validateOnInput: true,
+      validationDebounce: 300,
+    });
+
+    await input("email", "j");
+    await input("email", "james");
+
+    await vi.advanceTimersByTimeAsync(299);
+    expect(get(form.errors).email).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(get(form.errors).email).toStrictEqual("Invalid email");
+
+    vi.useRealTimers();
+  });
+
+  it("Validates the changed fields with `validateOnChange`", async () => {
+    const { form, input } = renderForm({ validateOnChange: true });
+
+    await input("name", "James");
+    await input("name", "");
+
+    await vi.waitFor(() =>
+      expect(get(form.errors).name).toStrictEqual("Required")
+    );
+    expect(get(form.errors).email).toBeNull();
+  });
+
+  it("Doesn't validate changes without validation triggers", async () => {
+    const { form, input } = renderForm();
+
+    await input("email", "james");
+    await flush();
+
+    expect(get(form.errors).email).toBeNull();
+  });
+
+  it("Doesn't validate if `shouldValidateField` is `false`", async () => {
+    const { form } = renderForm({ validateOnChange: true });
+
+    form.setFieldValue("email", "james", false);
+    await flush();
+
+    expect(get(form.errors).email).toBeNull();
+    expect(get(form.values).email).toStrictEqual("james");
+  });
+
+  it("Doesn't validate the values restored by `reset`", async () => {
+    const { form, input } = renderForm({ validateOnInput: true });
+
+    await input("name", "James");
+    await flush();
+    form.reset();
+    await flush();
+
+    expect(get(form.errors).name).toBeNull();
+  });
+});
+
+describe("Form: destroy", () => {
+  it("Cancels scheduled validations and ignores further updates", () => {
+    vi.useFakeTimers();
+
+    const validate = vi.fn(() => ({ username: "Username is taken." }));
+    const form = newForm({
+      initialValues: { username: "" },
+      onSubmit: vi.fn(),
+      validator: functionValidator(validate),
+      validateOnInput: true,
+      validationDebounce: 300,
+    });
+
+    form.handleInput({
+      target: { name: "username", value: "james", type: "text" },
+    } as unknown as Event);
+    form.destroy();
+    vi.advanceTimersByTime(300);
+
+    form.setFieldValue("username", "bond");
+    form.setFieldError("username", "Invalid.");
+
+    expect(validate).not.toHaveBeenCalled();
+    expect(get(form.values).username).toStrictEqual("james");
+    expect(get(form.errors).username).toBeNull();
+
+    vi.useRealTimers();
+  });
+
+  it("Releases internal subscriptions", () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      liveValidation: true,
+      validator: functionValidator(() => ({})),
+    });
+    const unsubscribe = vi.spyOn(form.subscriptions, "values");
+
+    form.destroy();
+    form.destroy();
+
+    expect(unsubscribe).toHaveBeenCalledOnce();
+  });
+
+  it("Is destroyed along with the component which created it", () => {
+    let form: FormInstance<{ name: string }>;
+    const { unmount } = render(FormProvider, {
+      props: { onForm: (instance: typeof form) => (form = instance) },
+    });
+    const unsubscribe = vi.spyOn(form.subscriptions, "values");
+
+    form.setFieldValue("name", "James");
+    unmount();
+    form.setFieldValue("name", "Bond");
+
+    expect(unsubscribe).toHaveBeenCalledOnce();
+    expect(get(form.values).name).toStrictEqual("James");
+  });
+});
+
+describe("Form: conditional fields", () => {
+  const createForm = (keepValue = false) => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { isBusiness: false, companyName: "", name: "" },
+      validator: functionValidator((values) => ({
+        companyName: values.companyName ? undefined : "Required.",
+        name: values.name ? undefined : "Required.",
+      })),
+      fields: {
+        companyName: { when: (values) => values.isBusiness, keepValue },
+      },
+      onSubmit,
+    });
+
+    return { form, onSubmit };
+  };
+
+  it("Skips inactive fields on validation", async () => {
+    const { form } = createForm();
+
+    await form.validateField("companyName");
+    expect(get(form.errors).companyName).toBeNull();
+    expect(form.isFieldActive("companyName")).toStrictEqual(false);
+
+    expect(await form.validateForm()).toStrictEqual(false);
+    expect(get(form.errors)).toEqual({
+      name: "Required.",
+      isBusiness: null,
+      companyName: null,
+    });
+
+    form.setFieldValue("isBusiness", true);
+    await form.validateField("companyName");
+    expect(get(form.errors).companyName).toStrictEqual("Required.");
+    expect(form.isFieldActive("companyName")).toStrictEqual(true);
+  });
+
+  it("Clears errors and resets values of deactivated fields", () => {
+    const { form } = createForm();
+
+    form.setFieldValue("isBusiness", true);
+    form.setFieldValue("companyName", "Universal Exports");
+    form.setFieldError("companyName", "Taken.");
+    form.setFieldValue("isBusiness", false);
+
+    expect(get(form.errors).companyName).toBeNull();
+    expect(get(form.values).companyName).toStrictEqual("");
+  });
+
+  it("Keeps values of deactivated fields if `keepValue` is set", () => {
+    const { form } = createForm(true);
+
+    form.setFieldValue("isBusiness", true);
+    form.setFieldValue("companyName", "Universal Exports");
+    form.setFieldValue("isBusiness", false);
+
+    expect(get(form.values).companyName).toStrictEqual("Universal Exports");
+  });
+
+  it("Doesn't provide inactive fields to `onSubmit`", async () => {
+    const { form, onSubmit } = createForm(true);
+
+    form.setFieldValue("isBusiness", true);
+    form.setFieldValue("companyName", "Universal Exports");
+    form.setFieldValue("isBusiness", false);
+    form.setFieldValue("name", "James");
+    await form.handleSubmit(new Event("submit"));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      { isBusiness: false, name: "James" },
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { get } from "svelte/store";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { field, newForm } from "../src";
+import { createHistory } from "../src/history";
+
+describe("History: createHistory", () => {
+  it("Undoes and redoes recorded snapshots", () => {
+    const history = createHistory<number>();
+
+    history.record(1);
+    history.record(2);
+
+    expect(history.undo(3)).toStrictEqual(2);
+    expect(history.undo(2)).toStrictEqual(1);
+    expect(history.undo(1)).toBeUndefined();
+    expect(history.redo(1)).toStrictEqual(2);
+    expect(history.redo(2)).toStrictEqual(3);
+    expect(history.redo(3)).toBeUndefined();
+  });
+
+  it("Drops the oldest snapshots beyond the `limit`", () => {
+    const history = createHistory<number>({ limit: 2 });
+
+    history.record(1);
+    history.record(2);
+    history.record(3);
+
+    expect(history.undo(4)).toStrictEqual(3);
+    expect(history.undo(3)).toStrictEqual(2);
+    expect(history.undo(2)).toBeUndefined();
+  });
+
+  it("Clears undone snapshots when a new snapshot is recorded", () => {
+    const history = createHistory<number>();
+
+    history.record(1);
+    history.undo(2);
+    history.record(1);
+
+    expect(get(history.canRedo)).toStrictEqual(false);
+  });
+});
+
+describe("History: newForm integration", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const type = (form: ReturnType<typeof newForm>, value: string) =>
+    form.handleInput({
+      target: { name: "name", value, type: "text" },
+    } as unknown as Event);
+
+  it("Coalesces rapid keystrokes into a single snapshot", () => {
+    const form = newForm({
+      initialValues: { name: "", email: "" },
+      onSubmit: vi.fn(),
+      history: true,
+    });
+
+    expect(get(form.canUndo)).toStrictEqual(false);
+
+    type(form, "J");
+    vi.advanceTimersByTime(100);
+    type(form, "Ja");
+    vi.advanceTimersByTime(1000);
+    type(form, "Jam");
+
+    expect(get(form.canUndo)).toStrictEqual(true);
+
+    form.undo();
+    expect(get(form.values).name).toStrictEqual("Ja");
+
+    form.undo();
+    expect(get(form.values).name).toStrictEqual("");
+    expect(get(form.canUndo)).toStrictEqual(false);
+
+    form.redo();
+    form.redo();
+    expect(get(form.values).name).toStrictEqual("Jam");
+    expect(get(form.canRedo)).toStrictEqual(false);
+  });
+
+  it("Doesn't record snapshots for unchanged values", () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      history: true,
+    });
+    const input = document.createElement("input");
+
+    input.name = "name";
+    field(input, form);
+
+    input.value = "abc";
+    input.dispatchEvent(new Event("input"));
+    vi.advanceTimersByTime(1000);
+    input.dispatchEvent(new Event("change"));
+    form.undo();
+
+    expect(get(form.values).name).toStrictEqual("");
+    expect(get(form.canUndo)).toStrictEqual(false);
+  });
+
+  it("Records `reset` so it can be undone", () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      history: true,
+    });
+
+    form.setFieldValue("name", "James");
+    form.reset();
+    form.undo();
+
+    expect(get(form.values).name).toStrictEqual("James");
+  });
+
+  it("Clears the history on `setInitialValues`", () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+      history: { limit: 10 },
+    });
+
+    form.setFieldValue("name", "James");
+    form.setInitialValues({ name: "James" });
+
+    expect(get(form.canUndo)).toStrictEqual(false);
+  });
+
+  it("Does nothing if `history` is not enabled", () => {
+    const form = newForm({
+      initialValues: { name: "" },
+      onSubmit: vi.fn(),
+    });
+
+    form.setFieldValue("name", "James");
+    form.undo();
+
+    expect(get(form.values).name).toStrictEqual("James");
+    expect(get(form.canUndo)).toStrictEqual(false);
+  });
+});
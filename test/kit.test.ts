@@ -0,0 +1,155 @@
+import { get } from "svelte/store";
+import { describe, expect, it, vi } from "vitest";
+import * as yup from "yup";
+
+import {
+  actionFailure,
+  applyActionData,
+  SubmitFailure,
+  enhanceForm,
+  newForm,
+  validateFormData,
+} from "../src";
+
+import type { EnhanceResultInput } from "../src";
+
+const validationSchema = yup.object({
+  email: yup.string().email("Invalid email.").required("Required."),
+});
+
+const initialValues = { email: "", avatar: null as File | null };
+
+describe("Kit: server helpers", () => {
+  it("Validates submitted FormData with the same schema", async () => {
+    const formData = new FormData();
+
+    formData.append("email", "james");
+
+    const result = await validateFormData(formData, {
+      initialValues,
+      validationSchema,
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      values: { email: "james", avatar: null },
+      errors: { email: "Invalid email." },
+    });
+  });
+
+  it("Builds a serializable failure payload without files", () => {
+    const avatar = new File(["007"], "avatar.png");
+
+    expect(
+      actionFailure({
+        values: { email: "james", avatar },
+        errors: { email: "Taken." },
+      })
+    ).toEqual({ values: { email: "james" }, errors: { email: "Taken." } });
+  });
+});
+
+describe("Kit: client helpers", () => {
+  it("Applies failures returned as ActionData", () => {
+    const form = newForm({ initialValues, validationSchema });
+
+    applyActionData(form, {
+      values: { email: "james" },
+      errors: { email: "Taken.", "": "Try again later." },
+    });
+    applyActionData(form, { id: 1 });
+
+    expect(get(form.values)).toEqual({ email: "james", avatar: null });
+    expect(get(form.errors).email).toBe("Taken.");
+    expect(get(form.formError)).toBe("Try again later.");
+  });
+
+  it("Cancels the request if the values are not valid", async () => {
+    const form = newForm({ initialValues, validationSchema });
+    const cancel = vi.fn();
+
+    expect(await enhanceForm(form)({ cancel })).toBeUndefined();
+    expect(cancel).toHaveBeenCalled();
+    expect(get(form.submitState)).toBe("failed");
+  });
+
+  it("Tracks the request and applies failures", async () => {
+    const form = newForm({ initialValues, validationSchema });
+    const update = vi.fn(async () => {});
+
+    form.values.set({ email: "james@mi6.gov.uk", avatar: null });
+
+    const callback = await enhanceForm(form)({ cancel: vi.fn() });
+
+    expect(get(form.isSubmitting)).toBe(true);
+    expect(get(form.submitState)).toBe("submitting");
+
+    await (callback as (input: EnhanceResultInput) => Promise<void>)({
+      result: {
+        type: "failure",
+        status: 400,
+        data: { values: {}, errors: { email: "Taken." } },
+      },
+      update,
+    });
+
+    expect(update).toHaveBeenCalledWith({
+      reset: false,
+      invalidateAll: undefined,
+    });
+    expect(get(form.isSubmitting)).toBe(false);
+    expect(get(form.submitCount)).toBe(1);
+    expect(get(form.errors).email).toBe("Taken.");
+  });
+
+  it("Fails the submission and keeps the draft if the action fails", async () => {
+    const storage = new Map<string, string>();
+    const form = newForm({
+      initialValues,
+      validationSchema,
+      persist: {
+        key: "signup",
+        throttle: 0,
+        storage: {
+          getItem: (key) => storage.get(key) ?? null,
+          setItem: (key, value) => storage.set(key, value),
+          removeItem: (key) => storage.delete(key),
+        },
+      },
+    });
+
+    form.values.set({ email: "james@mi6.gov.uk", avatar: null });
+    await new Promise((resolve) => setTimeout(resolve));
+
+    const callback = await enhanceForm(form)({ cancel: vi.fn() });
+
+    await (callback as (input: EnhanceResultInput) => Promise<void>)({
+      result: {
+        type: "failure",
+        status: 400,
+        data: { values: {}, errors: { email: "Taken." } },
+      },
+      update: async () => {},
+    });
+
+    expect(get(form.submitState)).toBe("failed");
+    expect(get(form.lastSubmitError)).toBeInstanceOf(SubmitFailure);
+    expect(storage.has("signup")).toBe(true);
+  });
+
+  it("Resets the values after a successful request", async () => {
+    const form = newForm({ initialValues, validationSchema });
+
+    form.values.set({ email: "james@mi6.gov.uk", avatar: null });
+
+    const callback = await enhanceForm(form)({ cancel: vi.fn() });
+
+    await (callback as (input: EnhanceResultInput) => Promise<void>)({
+      result: { type: "success", status: 200 },
+      update: async () => {},
+    });
+
+    expect(get(form.submitState)).toBe("succeeded");
+    expect(get(form.values)).toEqual(initialValues);
+  });
+});
@@ -0,0 +1,151 @@
+import { get } from "svelte/store";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { newForm } from "../src";
+import { loadDraft, mergeDraft, saveDraft } from "../src/persist";
+
+import type { DraftStorage } from "../src";
+
+const createStorage = (): DraftStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+};
+
+describe("Persist: drafts", () => {
+  it("Saves and loads drafts omitting excluded fields and files", () => {
+    const storage = createStorage();
+    const persist = { key: "draft", storage, exclude: ["password"] };
+
+    saveDraft(persist, {
+      email: "james@mi6.gov.uk",
+      password: "007",
+      avatar: new File(["007"], "avatar.png"),
+    });
+
+    expect(loadDraft(persist)).toEqual({
+      version: null,
+      values: { email: "james@mi6.gov.uk" },
+    });
+  });
+
+  it("Discards drafts with a different version", () => {
+    const storage = createStorage();
+
+    saveDraft({ key: "draft", storage, version: 1 }, { name: "James" });
+
+    expect(loadDraft({ key: "draft", storage, version: 2 })).toBeNull();
+    expect(storage.items.has("draft")).toStrictEqual(false);
+  });
+
+  it("Discards drafts which can't be parsed", () => {
+    const storage = createStorage();
+
+    storage.setItem("draft", "{");
+
+    expect(loadDraft({ key: "draft", storage })).toBeNull();
+    expect(storage.items.has("draft")).toStrictEqual(false);
+  });
+
+  it("Merges drafts into initial values", () => {
+    expect(
+      mergeDraft(
+        {
+          name: "",
+          password: "",
+          birthday: new Date(0),
+          address: { city: "", zip: "" },
+        },
+        {
+          name: "James",
+          birthday: "2000-01-31T00:00:00.000Z",
+          address: { city: "London" },
+        }
+      )
+    ).toEqual({
+      name: "James",
+      password: "",
+      birthday: new Date("2000-01-31T00:00:00.000Z"),
+      address: { city: "London", zip: "" },
+    });
+  });
+});
+
+describe("Persist: newForm integration", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const initialValues = { name: "", password: "" };
+
+  it("Autosaves values and restores them on a new form", () => {
+    const storage = createStorage();
+    const persist = { key: "signup", storage, exclude: ["password"] };
+    const form = newForm({ initialValues, onSubmit: vi.fn(), persist });
+
+    form.setFieldValue("name", "James");
+    form.setFieldValue("password", "007");
+
+    expect(storage.items.has("signup")).toStrictEqual(false);
+
+    vi.advanceTimersByTime(500);
+
+    const restoredForm = newForm({ initialValues, onSubmit: vi.fn(), persist });
+
+    expect(get(restoredForm.values)).toEqual({ name: "James", password: "" });
+    expect(get(restoredForm.isDirty)).toStrictEqual(true);
+  });
+
+  it("Persists touched fields if enabled", () => {
+    const storage = createStorage();
+    const persist = { key: "signup", storage, touched: true };
+    const form = newForm({ initialValues, onSubmit: vi.fn(), persist });
+
+    form.setFieldValue("name", "James");
+    form.setFieldTouched("name", true);
+    vi.advanceTimersByTime(500);
+
+    const restoredForm = newForm({ initialValues, onSubmit: vi.fn(), persist });
+
+    expect(get(restoredForm.touched).name).toStrictEqual(true);
+    expect(get(restoredForm.touched).password).toStrictEqual(false);
+  });
+
+  it("Clears the draft after a successful submission", async () => {
+    const storage = createStorage();
+    const persist = { key: "signup", storage };
+    const form = newForm({ initialValues, onSubmit: vi.fn(), persist });
+
+    form.setFieldValue("name", "James");
+    vi.advanceTimersByTime(500);
+
+    expect(storage.items.has("signup")).toStrictEqual(true);
+
+    await form.handleSubmit({} as Event);
+
+    expect(storage.items.has("signup")).toStrictEqual(false);
+  });
+
+  it("Clears the draft on `reset`", () => {
+    const storage = createStorage();
+    const persist = { key: "signup", storage };
+    const form = newForm({ initialValues, onSubmit: vi.fn(), persist });
+
+    form.setFieldValue("name", "James");
+    vi.advanceTimersByTime(500);
+    form.setFieldValue("name", "Bond");
+    form.reset();
+    vi.advanceTimersByTime(500);
+
+    expect(storage.items.has("signup")).toStrictEqual(false);
+  });
+});
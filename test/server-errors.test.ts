@@ -0,0 +1,120 @@
+import { get } from "svelte/store";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  fromFieldErrors,
+  fromGraphQLErrors,
+  fromProblemDetails,
+  newForm,
+} from "../src";
+
+describe("Server Errors: fromProblemDetails", () => {
+  it("Maps `invalid-params` by name or JSON pointer", () => {
+    expect(
+      fromProblemDetails({
+        type: "https://example.net/validation-error",
+        title: "Your request parameters didn't validate.",
+        "invalid-params": [
+          { name: "age", reason: "must be a positive integer" },
+          { name: "address.city", reason: "is required" },
+          { pointer: "#/items/0/qty", reason: "must be at least 1" },
+        ],
+      })
+    ).toEqual({
+      age: "must be a positive integer",
+      "address.city": "is required",
+      "items[0].qty": "must be at least 1",
+    });
+  });
+
+  it("Uses the `detail` as form-level error if there are no `invalid-params`", () => {
+    expect(
+      fromProblemDetails({ title: "Forbidden", detail: "Not allowed." })
+    ).toEqual({ "": "Not allowed." });
+  });
+});
+
+describe("Server Errors: fromGraphQLErrors", () => {
+  it("Maps errors using the `field` extension", () => {
+    expect(
+      fromGraphQLErrors({
+        errors: [
+          { message: "Email is taken", extensions: { field: "email" } },
+          {
+            message: "Invalid quantity",
+            extensions: { field: ["items", 1, "qty"] },
+          },
+          { message: "Rate limited", extensions: { code: "RATE_LIMITED" } },
+        ],
+      })
+    ).toEqual({
+      email: "Email is taken",
+      "items[1].qty": "Invalid quantity",
+      "": "Rate limited",
+    });
+  });
+});
+
+describe("Server Errors: fromFieldErrors", () => {
+  it("Maps nested field errors keeping the first message", () => {
+    expect(
+      fromFieldErrors({
+        email: ["is invalid", "is too long"],
+        address: { city: ["can't be blank"] },
+        items: [{}, { qty: ["must be greater than 0"] }],
+        non_field_errors: ["Something went wrong"],
+        name: [],
+      })
+    ).toEqual({
+      email: "is invalid",
+      "address.city": "can't be blank",
+      "items[1].qty": "must be greater than 0",
+      non_field_errors: "Something went wrong",
+    });
+  });
+});
+
+describe("Server Errors: setErrors", () => {
+  const initialValues = {
+    email: "",
+    address: { city: "" },
+  };
+
+  it("Sets field errors and falls back to a form-level error", () => {
+    const form = newForm({ initialValues, onSubmit: vi.fn() });
+
+    form.setErrors(
+      fromFieldErrors({
+        email: ["is invalid"],
+        address: { city: ["can't be blank"] },
+        base: ["Account is locked"],
+      })
+    );
+
+    expect(get(form.errors).email).toStrictEqual("is invalid");
+    expect(get(form.errors).address.city).toStrictEqual("can't be blank");
+    expect(get(form.formError)).toStrictEqual("Account is locked");
+
+    form.clearErrors();
+
+    expect(get(form.formError)).toBeUndefined();
+  });
+
+  it("Is available on `onSubmit` helpers", async () => {
+    const form = newForm({
+      initialValues,
+      onSubmit: (_, { setErrors }) => {
+        setErrors(
+          fromProblemDetails({
+            "invalid-params": [{ name: "email", reason: "is taken" }],
+          })
+        );
+      },
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(get(form.errors).email).toStrictEqual("is taken");
+    expect(get(form.formError)).toBeUndefined();
+  });
+});
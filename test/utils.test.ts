@@ -1,6 +1,22 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
-import { clone } from "../src/utils";
+import {
+  clone,
+  flatten,
+  getChangedPaths,
+  getIn,
+  hasIn,
+  insertAt,
+  isEqual,
+  isWithinPaths,
+  moveItem,
+  removeAt,
+  setIn,
+  swapItems,
+  throttle,
+  toPath,
+  unsetIn,
+} from "../src/utils";
 
 describe("Utils: clone", () => {
   it("clones an object w/o overriding values", () => {
@@ -52,7 +68,16 @@ describe("Utils: clone", () => {
       agentNumber: "Bond, James Bond",
       gender: "Bond, James Bond",
       isActive: "Bond, James Bond",
-      inventory: "Bond, James Bond",
+      inventory: [
+        {
+          id: "Bond, James Bond",
+          name: "Bond, James Bond",
+        },
+        {
+          id: "Bond, James Bond",
+          name: "Bond, James Bond",
+        },
+      ],
     };
 
     const valuesClone = clone(values, "Bond, James Bond");
@@ -151,3 +176,213 @@ describe("Utils: clone", () => {
     });
   });
 });
+
+describe("Utils: clone (nested)", () => {
+  it("mirrors the nested shape when overriding values", () => {
+    const values = {
+      name: "James",
+      address: {
+        city: "London",
+        zip: "SW1A",
+      },
+      tags: ["spy"],
+    };
+
+    expect(clone(values, null)).toEqual({
+      name: null,
+      address: {
+        city: null,
+        zip: null,
+      },
+      tags: [null],
+    });
+  });
+
+  it("keeps non plain objects such as `Date` as leaf values", () => {
+    const birthday = new Date(0);
+    const valuesClone = clone({ birthday });
+
+    expect(valuesClone.birthday).toBe(birthday);
+  });
+});
+
+describe("Utils: toPath", () => {
+  it("splits dot and bracket notation paths", () => {
+    expect(toPath("name")).toEqual(["name"]);
+    expect(toPath("address.city")).toEqual(["address", "city"]);
+    expect(toPath("items[2].qty")).toEqual(["items", "2", "qty"]);
+    expect(toPath('matrix[0][1]["key"]')).toEqual(["matrix", "0", "1", "key"]);
+  });
+});
+
+describe("Utils: getIn", () => {
+  it("retrieves nested values", () => {
+    const values = {
+      address: { city: "London" },
+      items: [{ qty: 1 }, { qty: 2 }],
+    };
+
+    expect(getIn(values, "address.city")).toStrictEqual("London");
+    expect(getIn(values, "items[1].qty")).toStrictEqual(2);
+    expect(getIn(values, "items.0.qty")).toStrictEqual(1);
+  });
+
+  it("returns `undefined` for unreachable paths", () => {
+    expect(getIn({ address: null }, "address.city")).toBeUndefined();
+    expect(getIn({}, "items[3].qty")).toBeUndefined();
+  });
+});
+
+describe("Utils: setIn", () => {
+  it("sets nested values without mutating the source object", () => {
+    const values = {
+      name: "James",
+      address: { city: "London", zip: "SW1A" },
+      items: [{ qty: 1 }, { qty: 2 }],
+    };
+
+    const next = setIn(setIn(values, "address.city", "Paris"), "items[1].qty", 5);
+
+    expect(next).toEqual({
+      name: "James",
+      address: { city: "Paris", zip: "SW1A" },
+      items: [{ qty: 1 }, { qty: 5 }],
+    });
+    expect(values.address.city).toStrictEqual("London");
+    expect(values.items[1].qty).toStrictEqual(2);
+    expect(next.items[0]).toBe(values.items[0]);
+  });
+
+  it("creates missing containers along the path", () => {
+    expect(setIn({}, "items[0].qty", 1)).toEqual({ items: [{ qty: 1 }] });
+    expect(setIn({ address: null }, "address.city", "Paris")).toEqual({
+      address: { city: "Paris" },
+    });
+  });
+});
+
+describe("Utils: array helpers", () => {
+  it("returns copies instead of mutating the source array", () => {
+    const items = ["a", "b", "c"];
+
+    expect(insertAt(items, 1, "z")).toEqual(["a", "z", "b", "c"]);
+    expect(removeAt(items, 1)).toEqual(["a", "c"]);
+    expect(moveItem(items, 0, 2)).toEqual(["b", "c", "a"]);
+    expect(swapItems(items, 0, 2)).toEqual(["c", "b", "a"]);
+    expect(items).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("Utils: flatten", () => {
+  it("flattens leaf values keyed by field path", () => {
+    const birthday = new Date(0);
+
+    expect(
+      flatten({
+        name: "James",
+        birthday,
+        address: { city: "London" },
+        items: [{ qty: 1 }, { qty: 2 }],
+        tags: [],
+      })
+    ).toEqual({
+      name: "James",
+      birthday,
+      "address.city": "London",
+      "items[0].qty": 1,
+      "items[1].qty": 2,
+    });
+  });
+});
+
+describe("Utils: isEqual", () => {
+  it("compares plain objects, arrays and dates deeply", () => {
+    expect(isEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(isEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(isEqual({ a: 1 }, { b: 1 })).toBe(false);
+    expect(isEqual(new Date(0), new Date(0))).toBe(true);
+    expect(isEqual(new Date(0), new Date(1))).toBe(false);
+    expect(isEqual(NaN, NaN)).toBe(true);
+    expect(isEqual(null, {})).toBe(false);
+  });
+});
+
+describe("Utils: throttle", () => {
+  it("invokes the function once per window with the latest arguments", () => {
+    vi.useFakeTimers();
+
+    const fn = vi.fn();
+    const throttled = throttle(fn, 100);
+
+    throttled(1);
+    throttled(2);
+    vi.advanceTimersByTime(100);
+    throttled(3);
+    throttled.cancel();
+    vi.advanceTimersByTime(100);
+    throttled(4);
+    throttled.flush();
+
+    expect(fn.mock.calls).toEqual([[2], [4]]);
+
+    vi.useRealTimers();
+  });
+});
+
+describe("Utils: hasIn", () => {
+  it("checks whether a path is reachable", () => {
+    const values = { address: { city: undefined }, items: [{ qty: 1 }] };
+
+    expect(hasIn(values, "address.city")).toBe(true);
+    expect(hasIn(values, "items[0].qty")).toBe(true);
+    expect(hasIn(values, "items[1].qty")).toBe(false);
+    expect(hasIn(values, "address.zip")).toBe(false);
+    expect(hasIn(values, "")).toBe(false);
+  });
+});
+
+describe("Utils: unsetIn", () => {
+  it("removes the value at a path without mutating the object", () => {
+    const values = {
+      address: { city: "London", zip: "W1" },
+      tags: ["a", "b"],
+    };
+
+    expect(unsetIn(values, "address.zip")).toEqual({
+      address: { city: "London" },
+      tags: ["a", "b"],
+    });
+    expect(unsetIn(values, "tags[0]").tags).toEqual([undefined, "b"]);
+    expect(unsetIn(values, "address.country")).toBe(values);
+    expect(values.address.zip).toBe("W1");
+  });
+});
+
+describe("Utils: isWithinPaths", () => {
+  it("checks whether a path is nested in any of the paths", () => {
+    expect(isWithinPaths("address.city", ["address"])).toBe(true);
+    expect(isWithinPaths("items[0].qty", ["items"])).toBe(true);
+    expect(isWithinPaths("addressLine", ["address"])).toBe(false);
+  });
+});
+
+describe("Utils: getChangedPaths", () => {
+  it("lists the paths of the changed fields", () => {
+    expect(
+      getChangedPaths(
+        { name: "James", address: { city: "" }, tags: ["a"] },
+        { name: "James", address: { city: "London" }, tags: ["a", "b"] }
+      )
+    ).toStrictEqual(["address.city", "tags"]);
+  });
+
+  it("walks arrays holding objects item by item", () => {
+    expect(
+      getChangedPaths(
+        { items: [{ qty: 1 }, { qty: 2 }] },
+        { items: [{ qty: 1 }, { qty: 3 }, { qty: 1 }] }
+      )
+    ).toStrictEqual(["items[1].qty", "items[2]"]);
+  });
+});
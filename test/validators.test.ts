@@ -0,0 +1,265 @@
+import { get } from "svelte/store";
+import * as Yup from "yup";
+import { z } from "zod";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  functionValidator,
+  newForm,
+  yupValidator,
+  zodValidator,
+} from "../src";
+
+type Values = {
+  name: string;
+  address: { city: string };
+  items: { qty: number }[];
+};
+
+const values: Values = {
+  name: "",
+  address: { city: "" },
+  items: [{ qty: 1 }, { qty: 0 }],
+};
+
+const validators = {
+  yup: yupValidator<Values>(
+    Yup.object({
+      name: Yup.string().required("You must provide the name."),
+      address: Yup.object({
+        city: Yup.string().required("You must provide the city."),
+      }),
+      items: Yup.array().of(
+        Yup.object({
+          qty: Yup.number().min(1, "Quantity must be at least 1."),
+        })
+      ),
+    })
+  ),
+  zod: zodValidator<Values>(
+    z.object({
+      name: z.string().min(1, "You must provide the name."),
+      address: z.object({
+        city: z.string().min(1, "You must provide the city."),
+      }),
+      items: z.array(
+        z.object({
+          qty: z.number().min(1, "Quantity must be at least 1."),
+        })
+      ),
+    })
+  ),
+  function: functionValidator<Values>((values) => ({
+    name: values.name ? undefined : "You must provide the name.",
+    "address.city": values.address.city
+      ? undefined
+      : "You must provide the city.",
+    ...Object.fromEntries(
+      values.items.map(({ qty }, index) => [
+        `items.${index}.qty`,
+        qty >= 1 ? undefined : "Quantity must be at least 1.",
+      ])
+    ),
+  })),
+};
+
+describe.each(Object.entries(validators))("Validators: %s", (_, validator) => {
+  const expected = {
+    name: "You must provide the name.",
+    "address.city": "You must provide the city.",
+    "items[1].qty": "Quantity must be at least 1.",
+  };
+
+  it("Validates the whole form asynchronously", async () => {
+    expect(await validator.validate(values)).toEqual(expected);
+  });
+
+  it("Validates the whole form synchronously", () => {
+    expect(validator.validateSync(values)).toEqual(expected);
+  });
+
+  it("Resolves to an empty object for valid values", async () => {
+    const validValues = {
+      name: "James",
+      address: { city: "London" },
+      items: [{ qty: 1 }],
+    };
+
+    expect(await validator.validate(validValues)).toEqual({});
+    expect(validator.validateSync(validValues)).toEqual({});
+  });
+
+  it("Validates a single field", async () => {
+    expect(await validator.validateAt("address.city", values)).toStrictEqual(
+      "You must provide the city."
+    );
+    expect(validator.validateSyncAt("items[1].qty", values)).toStrictEqual(
+      "Quantity must be at least 1."
+    );
+    expect(await validator.validateAt("items[0].qty", values)).toBeUndefined();
+  });
+});
+
+describe("Validators: functionValidator", () => {
+  it("Throws on synchronous validation if the function is asynchronous", () => {
+    const validator = functionValidator(async () => ({}));
+
+    expect(() => validator.validateSync({})).toThrow(TypeError);
+  });
+});
+
+describe("Validators: multiple errors and formatError", () => {
+  const passwordSchema = Yup.object({
+    password: Yup.string()
+      .min(8, "Too short.")
+      .matches(/[0-9]/, "Must include a number."),
+  });
+
+  it("Collects every message per field if `multiple` is set", async () => {
+    const validator = yupValidator(passwordSchema);
+
+    expect(
+      await validator.validate({ password: "abc" }, { multiple: true })
+    ).toEqual({ password: ["Too short.", "Must include a number."] });
+    expect(
+      await validator.validateAt(
+        "password",
+        { password: "abc" },
+        { multiple: true }
+      )
+    ).toEqual(["Too short.", "Must include a number."]);
+  });
+
+  it("Provides the type, params and path to `formatError`", async () => {
+    const formatError = vi.fn(
+      ({ type, params, path }) => `${path}:${type}:${params.min ?? ""}`
+    );
+
+    expect(
+      await yupValidator(passwordSchema).validate(
+        { password: "abcdef1" },
+        { formatError }
+      )
+    ).toEqual({ password: "password:min:8" });
+    expect(
+      zodValidator(z.object({ name: z.string().min(2) })).validateSync(
+        { name: "" },
+        { formatError }
+      )
+    ).toEqual({ name: "name:too_small:" });
+    expect(formatError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: "name",
+        type: "too_small",
+        params: expect.objectContaining({ minimum: 2 }),
+      })
+    );
+  });
+
+  it("Applies `multipleErrors` and `formatError` from the form config", async () => {
+    const form = newForm({
+      initialValues: { password: "abc" },
+      onSubmit: vi.fn(),
+      validationSchema: passwordSchema,
+      multipleErrors: true,
+      formatError: ({ type }) => `errors.${type}`,
+    });
+
+    await form.validateForm();
+
+    expect(get(form.errors).password).toEqual(["errors.min", "errors.matches"]);
+    expect(get(form.isValid)).toBe(false);
+  });
+});
+
+describe("Validators: newForm integration", () => {
+  it("Uses the `validator` to validate fields and submissions", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm<Values>({
+      initialValues: values,
+      onSubmit,
+      validator: validators.zod,
+    });
+
+    await form.validateField("name");
+    expect(get(form.errors).name).toStrictEqual("You must provide the name.");
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(get(form.errors).address.city).toStrictEqual(
+      "You must provide the city."
+    );
+    expect(get(form.errors).items[1].qty).toStrictEqual(
+      "Quantity must be at least 1."
+    );
+  });
+
+  it("Submits when the `validator` reports no errors", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { name: "James" },
+      onSubmit,
+      validator: functionValidator(() => ({})),
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmit).toHaveBeenCalledOnce();
+  });
+
+  it("Submits the output from yup's `validationSchema`", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { name: "  James  ", age: "32" },
+      onSubmit,
+      validationSchema: Yup.object({
+        name: Yup.string().trim().required(),
+        age: Yup.number().required(),
+      }),
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmit.mock.calls[0][0]).toStrictEqual({ name: "James", age: 32 });
+    expect(get(form.values)).toStrictEqual({ name: "  James  ", age: "32" });
+  });
+
+  it("Submits the output from yup while inactive fields are invalid", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { isBusiness: false, company: "", age: "5" },
+      onSubmit,
+      validationSchema: Yup.object({
+        isBusiness: Yup.boolean(),
+        company: Yup.string().required(),
+        age: Yup.number().required(),
+      }),
+      fields: {
+        company: { when: (values) => values.isBusiness },
+      },
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmit.mock.calls[0][0]).toStrictEqual({
+      isBusiness: false,
+      age: 5,
+    });
+  });
+
+  it("Submits the output from zod's `validator`", async () => {
+    const onSubmit = vi.fn();
+    const form = newForm({
+      initialValues: { name: "James", age: "32" },
+      onSubmit,
+      validator: zodValidator(
+        z.object({ name: z.string(), age: z.coerce.number() })
+      ),
+    });
+
+    await form.handleSubmit({} as Event);
+
+    expect(onSubmit.mock.calls[0][0]).toStrictEqual({ name: "James", age: 32 });
+  });
+});
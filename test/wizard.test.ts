@@ -0,0 +1,143 @@
+import { get } from "svelte/store";
+import { describe, expect, it, vi } from "vitest";
+import * as yup from "yup";
+
+import { functionValidator, newForm } from "../src";
+
+const accountSchema = yup.object({
+  email: yup.string().email("Invalid email.").required("Required."),
+});
+
+const addressSchema = yup.object({
+  address: yup.object({ city: yup.string().required("Required.") }),
+});
+
+const createForm = (onSubmit = vi.fn()) =>
+  newForm({
+    initialValues: { email: "", address: { city: "" } },
+    validationSchema: accountSchema.concat(addressSchema),
+    steps: [
+      { name: "Account", fields: ["email"], validationSchema: accountSchema },
+      {
+        name: "Address",
+        fields: ["address"],
+        validationSchema: addressSchema,
+      },
+    ],
+    onSubmit,
+  });
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("Wizard", () => {
+  it("Validates only the current step's fields before moving forward", async () => {
+    const form = createForm();
+
+    expect(await form.next()).toBe(false);
+    expect(get(form.currentStep)).toBe(0);
+    expect(get(form.errors)).toEqual({
+      email: "Required.",
+      address: { city: null },
+    });
+    expect(get(form.touched).email).toBe(true);
+
+    form.setFieldValue("email", "james@mi6.gov.uk");
+
+    expect(await form.next()).toBe(true);
+    expect(get(form.currentStep)).toBe(1);
+    expect(get(form.errors).email).toBeNull();
+
+    form.back();
+
+    expect(get(form.currentStep)).toBe(0);
+  });
+
+  it("Stops at the first invalid step when moving with `goTo`", async () => {
+    const form = createForm();
+
+    expect(await form.goTo(1)).toBe(false);
+    expect(get(form.currentStep)).toBe(0);
+    await expect(form.goTo(2)).rejects.toThrowError(RangeError);
+  });
+
+  it("Provides per-step `isValid` and `isDirty` stores", async () => {
+    const form = createForm();
+    const [account, address] = form.steps;
+
+    account.isValid.subscribe(() => {});
+    form.setFieldValue("email", "james@mi6.gov.uk");
+    await flushPromises();
+
+    expect(account.name).toBe("Account");
+    expect(get(account.isValid)).toBe(true);
+    expect(get(account.isDirty)).toBe(true);
+    expect(get(address.isDirty)).toBe(false);
+  });
+
+  it("Logs errors thrown while computing `isValid` only under `debug`", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const createThrowingForm = (debug: boolean) =>
+      newForm({
+        initialValues: { email: "" },
+        validator: functionValidator(() => {
+          throw new Error("Network error");
+        }),
+        steps: [{ name: "Account", fields: ["email"] }],
+        onSubmit: vi.fn(),
+        debug,
+      });
+
+    createThrowingForm(false).steps[0].isValid.subscribe(() => {});
+    await flushPromises();
+
+    expect(error).not.toHaveBeenCalled();
+
+    const [account] = createThrowingForm(true).steps;
+
+    account.isValid.subscribe(() => {});
+    await flushPromises();
+
+    expect(error).toHaveBeenCalledOnce();
+    expect(get(account.isValid)).toBe(false);
+
+    error.mockRestore();
+  });
+
+  it("Moves forward on submit and submits once from the last step", async () => {
+    const onSubmit = vi.fn();
+    const form = createForm(onSubmit);
+
+    form.setFieldValue("email", "james@mi6.gov.uk");
+    await form.handleSubmit(new Event("submit"));
+
+    expect(get(form.currentStep)).toBe(1);
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    form.setFieldValue("address.city", "London");
+    await form.handleSubmit(new Event("submit"));
+
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(get(form.submitCount)).toBe(1);
+  });
+
+  it("Shows the first invalid step when the final submit fails", async () => {
+    const form = createForm();
+
+    form.setFieldValue("email", "james@mi6.gov.uk");
+    await form.next();
+    form.setFieldValue("email", "");
+    form.setFieldValue("address.city", "London");
+    await form.handleSubmit(new Event("submit"));
+
+    expect(get(form.submitState)).toBe("failed");
+    expect(get(form.currentStep)).toBe(0);
+  });
+
+  it("Does nothing without `steps`", async () => {
+    const form = newForm({ initialValues: { email: "" }, onSubmit: vi.fn() });
+
+    expect(await form.next()).toBe(false);
+    expect(get(form.currentStep)).toBe(0);
+    expect(form.steps).toEqual([]);
+  });
+});
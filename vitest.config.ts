@@ -1,6 +1,11 @@
+import { svelte } from "@sveltejs/vite-plugin-svelte";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  plugins: [svelte({ hot: false })],
+  resolve: {
+    conditions: ["browser"],
+  },
   test: {
     globals: true,
     environment: "jsdom",